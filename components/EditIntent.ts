@@ -0,0 +1,43 @@
+import { EditIntent } from "./types"
+
+/**
+ * lib.dom doesn't know about the Input Events Level 2 additions to InputEvent
+ * yet. See https://w3c.github.io/input-events/#interface-InputEvent
+ */
+interface BeforeInputEvent extends InputEvent {
+	readonly dataTransfer?: DataTransfer | null
+	getTargetRanges?(): StaticRange[]
+}
+
+/**
+ * Capture an EditIntent from a `beforeinput` event. Must be called while the
+ * event is being dispatched: `getTargetRanges()` returns an empty array once
+ * dispatch completes.
+ * @param targetRanges For synthetic events, which have no target ranges.
+ */
+export function createEditIntent(
+	event: InputEvent,
+	targetRanges?: readonly StaticRange[]
+): EditIntent {
+	const nativeEvent = event as BeforeInputEvent
+	targetRanges = targetRanges ?? nativeEvent.getTargetRanges?.() ?? []
+	const target =
+		targetRanges.length > 0
+			? targetRanges[0].startContainer
+			: (nativeEvent.target as Node)
+
+	return {
+		inputType: nativeEvent.inputType,
+		data: nativeEvent.data ?? null,
+		dataTransfer: nativeEvent.dataTransfer ?? null,
+		targetRanges,
+		target,
+		nativeEvent,
+		get defaultPrevented() {
+			return nativeEvent.defaultPrevented
+		},
+		preventDefault() {
+			nativeEvent.preventDefault()
+		},
+	}
+}
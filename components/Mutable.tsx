@@ -13,14 +13,60 @@ import {
 	SVGAttributes,
 } from "react"
 
-import React from "react"
-import { OnMutations } from "./types"
+import React, { useMemo } from "react"
+import { ClipboardSerializer, OnPaste } from "./clipboard"
+import { KeyCommands } from "./keyCommands"
+import {
+	MutationFilter,
+	MutationPolicy,
+	OnMutations,
+	UnobservedMutations,
+} from "./types"
 import { useMergeRefs } from "./useMergeRefs"
 import { useMutations } from "./useMutations"
 import { Polymorphic, PolymorphicProps, defaultElement } from "./Polymorphic"
 
 interface MutableOwnProps {
 	onMutations?: OnMutations
+	/**
+	 * Receives mutations inside this Mutable before any Mutable nested inside
+	 * it, during the capture phase.
+	 */
+	onMutationsCapture?: OnMutations
+	/**
+	 * Parse this Mutable's DOM into its value in the MutableRoot's model.
+	 * @see MutableRoot's `onChange`
+	 */
+	parse?: (node: Node) => unknown
+	/**
+	 * Only receive these record types, eg `{ characterData: true }` for a text
+	 * block, or `{ attributeFilter: ["style"] }` for a style-only block.
+	 */
+	observe?: MutationFilter
+	/**
+	 * What to do with records inside this Mutable that `observe` filters out,
+	 * if no other Mutable receives them. Defaults to "revert".
+	 */
+	unobserved?: UnobservedMutations
+	/**
+	 * What to do with mutations inside this Mutable that no handler accepts or
+	 * rejects. Defaults to the policy of the closest Mutable or MutableRoot
+	 * with one, or "revert".
+	 */
+	policy?: MutationPolicy
+	/** Receives pastes inside this Mutable, closest Mutable first. */
+	onPaste?: OnPaste
+	/**
+	 * Serialize the selected part of this Mutable for copy and cut. Called
+	 * for the closest Mutable around the selection first. On cut, handle the
+	 * "deleteByCut" intent too, see ClipboardSerializer.
+	 */
+	serialize?: ClipboardSerializer
+	/**
+	 * Handle key chords while the selection is inside this Mutable, before
+	 * Mutables further up. Memoize them to avoid re-registering on every render.
+	 */
+	keyCommands?: KeyCommands
 }
 
 export type MutableProps<E extends React.ElementType> = PolymorphicProps<
@@ -30,10 +76,45 @@ export type MutableProps<E extends React.ElementType> = PolymorphicProps<
 
 export const Mutable = React.forwardRef(
 	(
-		{ onMutations, ...props }: MutableOwnProps,
+		{
+			onMutations,
+			onMutationsCapture,
+			parse,
+			observe,
+			unobserved,
+			policy,
+			onPaste,
+			serialize,
+			keyCommands,
+			...props
+		}: MutableOwnProps,
 		passedRef: React.Ref<Element>
 	) => {
-		const { ref: mutableRef } = useMutations(onMutations)
+		const handlers = useMemo(
+			() => ({
+				onMutations,
+				onMutationsCapture,
+				parse,
+				observe,
+				unobserved,
+				policy,
+				onPaste,
+				serialize,
+				keyCommands,
+			}),
+			[
+				onMutations,
+				onMutationsCapture,
+				parse,
+				observe,
+				unobserved,
+				policy,
+				onPaste,
+				serialize,
+				keyCommands,
+			]
+		)
+		const { ref: mutableRef } = useMutations(handlers)
 		const ref = useMergeRefs([mutableRef, passedRef])
 		return <Polymorphic ref={ref} {...props} />
 	}
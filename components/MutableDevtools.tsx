@@ -0,0 +1,216 @@
+import React, { useContext, useEffect, useState } from "react"
+import ReactDOM from "react-dom"
+import { getDocument } from "./dom"
+import { MutableIsland } from "./MutableIsland"
+import { InspectedBatch, MutationInspector } from "./MutationInspector"
+import { mutationsContext } from "./useMutations"
+
+export interface MutableDevtoolsProps {
+	/** Defaults to the inspector of the closest MutableRoot. */
+	inspector?: MutationInspector
+	className?: string
+	style?: React.CSSProperties
+}
+
+/**
+ * A live timeline of the batches a MutableRoot dispatched: which Mutables
+ * received each record, where propagation stopped, and whether the record was
+ * reverted. Hover over an entry to highlight its nodes.
+ *
+ * Render it anywhere with a MutableRoot's `inspector`, or inside a
+ * MutableRoot, where it becomes a MutableIsland.
+ */
+export function MutableDevtools(props: MutableDevtoolsProps) {
+	const context = useContext(mutationsContext)
+	const inspector = props.inspector ?? context?.inspector
+	if (!inspector) {
+		throw new Error(
+			"No inspector provided. Pass one, or render MutableDevtools inside a MutableRoot"
+		)
+	}
+
+	const panel = (
+		<DevtoolsPanel
+			inspector={inspector}
+			className={props.className}
+			style={props.style}
+		/>
+	)
+	return context ? <MutableIsland>{panel}</MutableIsland> : panel
+}
+
+function DevtoolsPanel(props: {
+	inspector: MutationInspector
+	className?: string
+	style?: React.CSSProperties
+}) {
+	const { inspector } = props
+	const [, forceUpdate] = useState(0)
+	const [highlighted, setHighlighted] = useState<Node[]>([])
+
+	useEffect(() => {
+		// The inspector changes many times per batch, while the lock is busy.
+		// Render once afterwards.
+		let timeout: ReturnType<typeof setTimeout> | undefined
+		const unsubscribe = inspector.subscribe(() => {
+			if (timeout === undefined) {
+				timeout = setTimeout(() => {
+					timeout = undefined
+					forceUpdate(n => n + 1)
+				})
+			}
+		})
+		forceUpdate(n => n + 1)
+		return () => {
+			unsubscribe()
+			if (timeout !== undefined) {
+				clearTimeout(timeout)
+			}
+		}
+	}, [inspector])
+
+	const highlight = (nodes: Node[]) => ({
+		onMouseEnter: () => setHighlighted(nodes),
+		onMouseLeave: () => setHighlighted([]),
+	})
+
+	return (
+		<div
+			className={props.className}
+			style={{ fontFamily: "monospace", fontSize: 12, ...props.style }}
+		>
+			<div>
+				Lock: <strong>{inspector.lockState}</strong>{" "}
+				<button onClick={() => inspector.clear()}>Clear</button>
+			</div>
+			{inspector.batches.map(batch => (
+				<BatchEntry key={batch.id} batch={batch} highlight={highlight} />
+			))}
+			<Highlight nodes={highlighted} />
+		</div>
+	)
+}
+
+type HighlightProps = (nodes: Node[]) => {
+	onMouseEnter(): void
+	onMouseLeave(): void
+}
+
+function BatchEntry(props: {
+	batch: InspectedBatch
+	highlight: HighlightProps
+}) {
+	const { batch, highlight } = props
+	return (
+		<details>
+			<summary {...highlight(batch.mutations.map(m => m.target))}>
+				#{batch.id} {new Date(batch.timestamp).toLocaleTimeString()}{" "}
+				{batch.inputType ?? "unknown input"}, {batch.mutations.length} records
+			</summary>
+			<ol>
+				{batch.mutations.map((mutation, i) => {
+					const revert = batch.reverts.get(mutation)
+					const receivers = batch.dispatches.filter(dispatch =>
+						dispatch.mutations.includes(mutation)
+					)
+					return (
+						<li key={i}>
+							<span {...highlight(recordNodes(mutation))}>
+								{describeRecord(mutation, batch)}
+							</span>{" "}
+							<em>
+								{!revert
+									? "kept"
+									: revert.ok
+									? "reverted"
+									: `failed to revert: ${String(revert.error)}`}
+							</em>
+							<ul>
+								{receivers.map((dispatch, j) => (
+									<li key={j} {...highlight([dispatch.node])}>
+										{describeNode(dispatch.node)} ({dispatch.phase},{" "}
+										{dispatch.duration.toFixed(1)}ms)
+										{dispatch.stopped.includes(mutation) && " stopPropagation"}
+									</li>
+								))}
+							</ul>
+						</li>
+					)
+				})}
+			</ol>
+		</details>
+	)
+}
+
+/** Outline `nodes` on top of the page. */
+function Highlight(props: { nodes: Node[] }) {
+	if (typeof document === "undefined" || props.nodes.length === 0) {
+		return null
+	}
+
+	const rects = props.nodes
+		.filter(node => node.isConnected)
+		.map(node => {
+			if (node.nodeType === node.ELEMENT_NODE) {
+				return (node as Element).getBoundingClientRect()
+			}
+			const range = getDocument(node).createRange()
+			range.selectNodeContents(node)
+			return range.getBoundingClientRect()
+		})
+
+	return ReactDOM.createPortal(
+		<>
+			{rects.map((rect, i) => (
+				<div
+					key={i}
+					style={{
+						position: "fixed",
+						left: rect.left,
+						top: rect.top,
+						width: rect.width,
+						height: rect.height,
+						outline: "2px solid rgba(255, 0, 128, 0.8)",
+						background: "rgba(255, 0, 128, 0.1)",
+						pointerEvents: "none",
+						zIndex: 2147483647,
+					}}
+				/>
+			))}
+		</>,
+		document.body
+	)
+}
+
+function recordNodes(mutation: MutationRecord): Node[] {
+	return [
+		mutation.target,
+		...Array.from(mutation.addedNodes),
+		...Array.from(mutation.removedNodes),
+	]
+}
+
+function describeNode(node: Node): string {
+	return node.nodeType === node.ELEMENT_NODE
+		? `<${(node as Element).localName}>`
+		: node.nodeName
+}
+
+function describeRecord(
+	mutation: MutationRecord,
+	batch: InspectedBatch
+): string {
+	switch (mutation.type) {
+		case "characterData":
+			return `text ${JSON.stringify(mutation.oldValue)} → ${JSON.stringify(
+				batch.newValues.get(mutation)
+			)}`
+		case "attributes":
+			return `${describeNode(mutation.target)} @${mutation.attributeName}`
+		case "childList":
+			return `${describeNode(mutation.target)} +${
+				mutation.addedNodes.length
+			} −${mutation.removedNodes.length}`
+	}
+	return mutation.type
+}
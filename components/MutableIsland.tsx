@@ -0,0 +1,128 @@
+import React, { useContext, useState } from "react"
+import { getSelection } from "./dom"
+import { MutableRegistry } from "./MutableRegistry"
+import { Polymorphic, PolymorphicProps, defaultElement } from "./Polymorphic"
+import { useIsomorphicLayoutEffect } from "./ssr"
+import { MutableHandlers } from "./types"
+import { useMergeRefs } from "./useMergeRefs"
+import { mutationsContext, useMutations } from "./useMutations"
+
+export type MutableIslandProps<E extends React.ElementType> = PolymorphicProps<
+	E,
+	{}
+>
+
+const islandHandlers: MutableHandlers = { island: true }
+
+/**
+ * A non-editable region inside a MutableRoot, for embedding interactive
+ * widgets like checkboxes, pickers or embeds. React stays fully in control of
+ * the island: mutations inside it are neither reverted nor dispatched, and the
+ * caret steps over it as a single unit.
+ */
+export const MutableIsland = React.forwardRef(function MutableIsland(
+	props: MutableIslandProps<typeof defaultElement>,
+	passedRef: React.Ref<Element>
+) {
+	const context = useContext(mutationsContext)
+	const { ref: mutableRef } = useMutations(islandHandlers)
+	const [node, setNode] = useState<Node>()
+	const ref = useMergeRefs([mutableRef, setNode, passedRef])
+
+	useIsomorphicLayoutEffect(() => {
+		if (node) {
+			return context.lock.claimSubtree(node)
+		}
+	}, [context.lock, node])
+
+	return <Polymorphic ref={ref} contentEditable={false} {...props} />
+}) as <E extends React.ElementType = typeof defaultElement>(
+	props: MutableIslandProps<E>
+) => JSX.Element
+
+/**
+ * @returns true if `node` is inside a MutableIsland registered with `registry`.
+ */
+export function isInsideIsland(registry: MutableRegistry, node: Node) {
+	return registry
+		.findAncestorPath(node)
+		.some(ancestor => registry.nodeToHandlers.get(ancestor)?.island)
+}
+
+/**
+ * Move a collapsed selection past an adjacent island when the user presses
+ * ArrowLeft or ArrowRight, instead of letting the caret wander inside it.
+ * @returns true if the event was handled
+ */
+export function skipIslandOnArrowKey(
+	event: KeyboardEvent,
+	registry: MutableRegistry
+): boolean {
+	if (
+		(event.key !== "ArrowLeft" && event.key !== "ArrowRight") ||
+		event.shiftKey ||
+		event.altKey ||
+		event.ctrlKey ||
+		event.metaKey
+	) {
+		return false
+	}
+
+	const target = event.target as Node
+	const selection = getSelection(target)
+	if (!selection || !selection.isCollapsed || !selection.focusNode) {
+		return false
+	}
+
+	const forward = event.key === "ArrowRight"
+	const adjacent = getAdjacentNode(
+		selection.focusNode,
+		selection.focusOffset,
+		forward
+	)
+	const island =
+		adjacent &&
+		registry
+			.findAncestorPath(adjacent)
+			.find(node => registry.nodeToHandlers.get(node)?.island)
+	if (!island || !island.parentNode) {
+		return false
+	}
+
+	const parent = island.parentNode
+	const index = Array.prototype.indexOf.call(parent.childNodes, island)
+	selection.collapse(parent, forward ? index + 1 : index)
+	event.preventDefault()
+	return true
+}
+
+/**
+ * @returns The node the caret at (`node`, `offset`) would move into.
+ */
+function getAdjacentNode(
+	node: Node,
+	offset: number,
+	forward: boolean
+): Node | undefined {
+	if (node.nodeType === node.TEXT_NODE) {
+		const length = (node as Text).length
+		if (forward ? offset < length : offset > 0) {
+			return undefined
+		}
+	} else {
+		const child = node.childNodes[forward ? offset : offset - 1]
+		if (child) {
+			return child
+		}
+	}
+
+	let current: Node | null = node
+	while (current) {
+		const sibling = forward ? current.nextSibling : current.previousSibling
+		if (sibling) {
+			return sibling
+		}
+		current = current.parentNode
+	}
+	return undefined
+}
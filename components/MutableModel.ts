@@ -0,0 +1,106 @@
+import { MutableRegistry } from "./MutableRegistry"
+
+/**
+ * A model of the document, with the same nesting as the Mutables that have a
+ * `parse` function.
+ */
+export interface MutableModel<T = unknown> {
+	readonly node: Node
+	/** Returned by the Mutable's `parse`. Undefined for a root without one. */
+	readonly value: T
+	readonly children: readonly MutableModel[]
+}
+
+/**
+ * Assembles the values parsed by each Mutable into a MutableModel tree. Like
+ * ProseMirror, we only use mutations to decide what to re-parse: after each
+ * batch, only the closest parsing Mutable of each mutation is parsed again.
+ * Unchanged subtrees keep their previous MutableModel objects.
+ */
+export class ModelBuilder {
+	private values = new WeakMap<Node, unknown>()
+	private models = new WeakMap<Node, MutableModel>()
+
+	/**
+	 * @param root The MutableRoot's node
+	 * @param bubblePaths The bubbling path of each mutation in the batch
+	 * @returns The new model, or undefined if no parsing Mutable was touched.
+	 */
+	build(
+		registry: MutableRegistry,
+		root: Node,
+		bubblePaths: Iterable<readonly Node[]>
+	): MutableModel | undefined {
+		const parses = (node: Node) =>
+			Boolean(registry.nodeToHandlers.get(node)?.parse)
+
+		const dirty = new Set<Node>()
+		for (const path of bubblePaths) {
+			const closest = path.find(parses)
+			if (closest) {
+				dirty.add(closest)
+			}
+		}
+
+		if (dirty.size === 0) {
+			return undefined
+		}
+
+		for (const node of dirty) {
+			this.values.set(node, registry.nodeToHandlers.get(node).parse(node))
+		}
+
+		// In document order, so every node comes after its parent, and children
+		// end up in order.
+		const children = new Map<Node, Node[]>()
+		const closestParsing = new Map<Node, Node>([[root, root]])
+		for (const [node] of registry.outermostFirstListeners) {
+			if (node === root) {
+				continue
+			}
+			const registeredParent = registry.getParent(node)
+			const parent =
+				(registeredParent && closestParsing.get(registeredParent)) ?? root
+			if (!parses(node)) {
+				closestParsing.set(node, parent)
+				continue
+			}
+			closestParsing.set(node, node)
+			const siblings = children.get(parent) ?? []
+			siblings.push(node)
+			children.set(parent, siblings)
+		}
+
+		return this.buildNode(registry, root, children)
+	}
+
+	private buildNode(
+		registry: MutableRegistry,
+		node: Node,
+		childrenByParent: Map<Node, Node[]>
+	): MutableModel {
+		if (!this.values.has(node)) {
+			const parse = registry.nodeToHandlers.get(node)?.parse
+			this.values.set(node, parse?.(node))
+		}
+
+		const children = (childrenByParent.get(node) ?? []).map(child =>
+			this.buildNode(registry, child, childrenByParent)
+		)
+		const value = this.values.get(node)
+
+		const previous = this.models.get(node)
+		if (
+			previous &&
+			previous.value === value &&
+			previous.children.length === children.length &&
+			previous.children.every((child, i) => child === children[i])
+		) {
+			return previous
+		}
+
+		const model: MutableModel = { node, value, children }
+		this.models.set(node, model)
+		return model
+	}
+}
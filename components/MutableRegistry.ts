@@ -1,78 +1,296 @@
-import { OnMutations } from "./types";
+import { MutableHandlers } from "./types"
 
+interface RegistryEntry {
+  node: Node
+  parent: RegistryEntry | undefined
+  /** In document order */
+  children: RegistryEntry[]
+}
+
+/**
+ * Keeps a tree of the registered nodes, mirroring their nesting in the DOM.
+ * The tree is updated incrementally: registering or unregistering a node costs
+ * O(depth + siblings), and finding a node's registered ancestors costs O(depth).
+ *
+ * Registrations are applied in one batch, either in a microtask or when the
+ * tree is next read, so a React commit that mounts many Mutables updates the
+ * tree once. React moves keyed nodes without registering them again, so each
+ * snapshot also checks that siblings are still in document order, in O(n).
+ */
 export class MutableRegistry {
-  nodeToHandler = new Map<Node, OnMutations>()
+  nodeToHandlers = new Map<Node, MutableHandlers>()
   idToNode = new Map<object, Node>()
-  depthFirstListeners: Array<[Node, OnMutations]> = []
+
+  private entries = new Map<Node, RegistryEntry>()
+  private roots: RegistryEntry[] = []
+  private pendingAdds = new Set<Node>()
+  private pendingRemoves = new Set<Node>()
+  private flushScheduled = false
+  private listenersCache:
+    | {
+        depthFirst: Array<[Node, MutableHandlers]>
+        outermostFirst: Array<[Node, MutableHandlers]>
+        /** Each node's index in `outermostFirst` and `depthFirst`. */
+        positions: Map<Node, [number, number]>
+      }
+    | undefined
 
   /**
    * @param id A stable object representing a component instance
    * @param node The component's DOM node
-   * @param onMutations Event handler
+   * @param handlers Event handlers and parser
    */
-  register(id: object, node: Node | null, onMutations: OnMutations) {
-    this.unregister(id, false)
+  register(id: object, node: Node | null | undefined, handlers: MutableHandlers) {
+    this.unregister(id)
+    if (!node) {
+      return () => this.unregister(id)
+    }
+
     this.idToNode.set(id, node)
-    this.nodeToHandler.set(node, onMutations)
-    this.recompute()
+    if (!this.nodeToHandlers.has(node) || this.pendingRemoves.has(node)) {
+      this.pendingRemoves.delete(node)
+      if (!this.entries.has(node)) {
+        this.pendingAdds.add(node)
+      }
+    }
+    this.nodeToHandlers.set(node, handlers)
+    this.invalidate()
     return () => this.unregister(id)
   }
 
-  unregister(id: object, recompute = true) {
+  unregister(id: object) {
     const node = this.idToNode.get(id)
+    if (!node) {
+      return
+    }
+
     this.idToNode.delete(id)
-    this.nodeToHandler.delete(node)
-    if (recompute) {
-      this.recompute()
+    this.nodeToHandlers.delete(node)
+    if (!this.pendingAdds.delete(node)) {
+      this.pendingRemoves.add(node)
     }
+    this.invalidate()
   }
 
-  recompute() {
-    const depthFirstListeners = Array.from(
-      this.nodeToHandler.entries()
-    ).sort(([a], [b]) => {
-      if (a === b) {
-        return 0
-      }
+  /** For the bubble phase. Every node comes before its ancestors. */
+  get depthFirstListeners(): Array<[Node, MutableHandlers]> {
+    return this.getListeners().depthFirst
+  }
 
-      const position = b.compareDocumentPosition(a)
-      if (
-        position &
-        (Node.DOCUMENT_POSITION_PRECEDING |
-          Node.DOCUMENT_POSITION_CONTAINED_BY)
-      ) {
-        return -1
-      }
+  /** For the capture phase. Every node comes before its descendants. */
+  get outermostFirstListeners(): Array<[Node, MutableHandlers]> {
+    return this.getListeners().outermostFirst
+  }
+
+  /**
+   * Like `outermostFirstListeners` and `depthFirstListeners`, but only the
+   * nodes on `paths`, in O(k log k) for k nodes.
+   * @param paths From `getPath` or `getBubblePath`.
+   */
+  getListenersOnPaths(paths: Iterable<Node[]>): {
+    depthFirst: Array<[Node, MutableHandlers]>
+    outermostFirst: Array<[Node, MutableHandlers]>
+  } {
+    const { positions } = this.getListeners()
+    const nodes = new Set<Node>()
+    for (const path of paths) {
+      path.forEach(node => nodes.add(node))
+    }
+    const inOrder = (order: 0 | 1) =>
+      Array.from(nodes)
+        .sort((a, b) => positions.get(a)[order] - positions.get(b)[order])
+        .map((node): [Node, MutableHandlers] => [node, this.nodeToHandlers.get(node)])
+    return { depthFirst: inOrder(1), outermostFirst: inOrder(0) }
+  }
 
-      return 1
-    })
+  /**
+   * Apply pending registrations. Call this whenever the DOM matches what React
+   * rendered, right before we start observing changes. From then on, the
+   * tree reflects the hierarchy the user saw, even if the DOM changes:
+   * mutations should bubble through that tree.
+   */
+  snapshot() {
+    this.flush()
+    if (this.sortSiblings(this.roots)) {
+      this.listenersCache = undefined
+    }
+  }
 
-    this.depthFirstListeners = depthFirstListeners
+  /**
+   * @returns `node` and its registered ancestors, closest first, as of the
+   *   last snapshot. Empty if `node` isn't registered.
+   */
+  getPath(node: Node): Node[] {
+    this.flush()
+    const path: Node[] = []
+    let entry = this.entries.get(node)
+    while (entry) {
+      path.push(entry.node)
+      entry = entry.parent
+    }
+    return path
   }
 
   /**
-   * 
-   * @param targetNode 
+   * @returns The closest registered ancestor of `node`, as of the last
+   *   snapshot.
+   */
+  getParent(node: Node): Node | undefined {
+    this.flush()
+    return this.entries.get(node)?.parent?.node
+  }
+
+  /**
+   * @param ancestors A node and its ancestors, closest first, in the tree
+   *   before the current mutations.
+   * @returns Registered nodes to bubble through, closest first.
+   */
+  getBubblePath(ancestors: Iterable<Node>): Node[] {
+    this.flush()
+    for (const node of ancestors) {
+      if (this.entries.has(node)) {
+        return this.getPath(node)
+      }
+    }
+    return []
+  }
+
+  /**
+   * @param targetNode
    * @returns Ancestors from closest to `targetNode` to farthest from `targetNode`
    */
   findAncestorPath(targetNode: Node): Node[] {
-    const ancestors = new Set<Node>()
-    for (const node of this.nodeToHandler.keys()) {
-      if (node === targetNode || node.contains(targetNode)) {
-        ancestors.add(node)
-      }
+    this.flush()
+    let node: Node | null = targetNode
+    while (node && !this.entries.has(node)) {
+      node = node.parentNode
     }
+    return node ? this.getPath(node) : []
+  }
 
-    return Array.from(ancestors).sort((a, b) => {
-      if (a.contains(b)) {
-        return 1
+  private invalidate() {
+    this.listenersCache = undefined
+    if (!this.flushScheduled) {
+      this.flushScheduled = true
+      Promise.resolve().then(() => this.flush())
+    }
+  }
+
+  private flush() {
+    this.flushScheduled = false
+    if (this.pendingAdds.size === 0 && this.pendingRemoves.size === 0) {
+      return
+    }
+
+    for (const node of this.pendingRemoves) {
+      this.removeEntry(node)
+    }
+    this.pendingRemoves.clear()
+
+    // Parents before children, so each node's parent is already in the tree.
+    const adds = Array.from(this.pendingAdds).sort(documentOrder)
+    this.pendingAdds.clear()
+    for (const node of adds) {
+      this.addEntry(node)
+    }
+    this.listenersCache = undefined
+  }
+
+  private addEntry(node: Node) {
+    let ancestor = node.parentNode
+    while (ancestor && !this.entries.has(ancestor)) {
+      ancestor = ancestor.parentNode
+    }
+
+    const parent = ancestor ? this.entries.get(ancestor) : undefined
+    const entry: RegistryEntry = { node, parent, children: [] }
+    const siblings = parent ? parent.children : this.roots
+    const index = sortedIndex(siblings, node)
+    // Descendants of `node` directly follow it in document order.
+    let end = index
+    while (end < siblings.length && node.contains(siblings[end].node)) {
+      end++
+    }
+    entry.children = siblings.splice(index, end - index, entry)
+    entry.children.forEach(child => (child.parent = entry))
+    this.entries.set(node, entry)
+  }
+
+  private removeEntry(node: Node) {
+    const entry = this.entries.get(node)
+    if (!entry) {
+      return
+    }
+
+    this.entries.delete(node)
+    const siblings = entry.parent ? entry.parent.children : this.roots
+    // Children take the removed entry's place, keeping document order.
+    siblings.splice(siblings.indexOf(entry), 1, ...entry.children)
+    entry.children.forEach(child => (child.parent = entry.parent))
+  }
+
+  /**
+   * Sort `siblings` and their descendants back into document order.
+   * @returns true if anything moved.
+   */
+  private sortSiblings(siblings: RegistryEntry[]): boolean {
+    let moved = false
+    for (let i = 1; i < siblings.length; i++) {
+      if (documentOrder(siblings[i - 1].node, siblings[i].node) > 0) {
+        siblings.sort((a, b) => documentOrder(a.node, b.node))
+        moved = true
+        break
       }
+    }
+    for (const entry of siblings) {
+      moved = this.sortSiblings(entry.children) || moved
+    }
+    return moved
+  }
 
-      if (b.contains(a)) {
-        return -1
+  private getListeners() {
+    this.flush()
+    if (!this.listenersCache) {
+      const outermostFirst: Array<[Node, MutableHandlers]> = []
+      const depthFirst: Array<[Node, MutableHandlers]> = []
+      const positions = new Map<Node, [number, number]>()
+      const visit = (entry: RegistryEntry) => {
+        const handlers = this.nodeToHandlers.get(entry.node)
+        const position: [number, number] = [outermostFirst.length, 0]
+        outermostFirst.push([entry.node, handlers])
+        entry.children.forEach(visit)
+        position[1] = depthFirst.length
+        depthFirst.push([entry.node, handlers])
+        positions.set(entry.node, position)
       }
+      this.roots.forEach(visit)
+      this.listenersCache = { depthFirst, outermostFirst, positions }
+    }
+    return this.listenersCache
+  }
+}
 
-      return 0
-    })
+function documentOrder(a: Node, b: Node) {
+  if (a === b) {
+    return 0
+  }
+
+  return a.compareDocumentPosition(b) & a.DOCUMENT_POSITION_FOLLOWING
+    ? -1
+    : 1
+}
+
+/** Binary search for where `node` goes in `entries`, which are in document order. */
+function sortedIndex(entries: RegistryEntry[], node: Node) {
+  let low = 0
+  let high = entries.length
+  while (low < high) {
+    const middle = (low + high) >>> 1
+    if (documentOrder(entries[middle].node, node) < 0) {
+      low = middle + 1
+    } else {
+      high = middle
+    }
   }
-}
\ No newline at end of file
+  return low
+}
@@ -8,18 +8,146 @@ import {
 	useMemo,
 	useEffect,
 	useRef,
+	useContext,
 } from "react"
+import {
+	ClipboardSerializer,
+	dispatchPaste,
+	HtmlSanitizer,
+	OnPaste,
+	PasteEvent,
+	sanitizeHtml,
+	serializeSelection,
+} from "./clipboard"
+import {
+	dispatchKeyCommands,
+	KeyCommandEvent,
+	KeyCommands,
+} from "./keyCommands"
+import { isInsideIsland, skipIslandOnArrowKey } from "./MutableIsland"
 import { MutableRegistry } from "./MutableRegistry"
+import { MutationHistory } from "./MutationHistory"
+import {
+	combineInstrumentation,
+	defaultInstrumentation,
+	MutationInstrumentation,
+	now,
+} from "./instrumentation"
+import { MutationInspector } from "./MutationInspector"
+import { MutationRecorder } from "./MutationRecorder"
+import { ModelBuilder, MutableModel } from "./MutableModel"
+import { applyPatches } from "./patches"
 import { PolymorphicProps, Polymorphic, defaultElement } from "./Polymorphic"
-import { OnMutations, MutationsEvent } from "./types"
+import { restoreSelection, snapshotSelection } from "./selection"
+import { computeTextChanges } from "./textChanges"
+import { createEditIntent } from "./EditIntent"
+import { getWindow } from "./dom"
+import {
+	OnMutations,
+	MutationsEvent,
+	EditIntent,
+	OnMutationsError,
+	MutationFilter,
+	MutationPolicy,
+} from "./types"
 import { useMergeRefs } from "./useMergeRefs"
+import { useHydrated, useIsomorphicLayoutEffect } from "./ssr"
 import { mutationsContext, MutationsContext } from "./useMutations"
-import { LowLevelOnMutations, useRevertMutations } from "./useRevertMutations"
+import {
+	DOMLock,
+	IndirectDOMLock,
+	LowLevelOnMutations,
+	MutationBatch,
+	reportUncaughtError,
+	useRevertMutations,
+	useUnlockForRender,
+} from "./useRevertMutations"
 
 interface MutableRootOwnProps {
-	onMutations: OnMutations
+	onMutations?: OnMutations
+	/**
+	 * Receives mutations before any Mutable inside the root, during the capture
+	 * phase. Stopping propagation here hides mutations from every other handler.
+	 */
+	onMutationsCapture?: OnMutations
 	children: ReactNode
 	disabled?: boolean
+	/**
+	 * Dispatch each `beforeinput` intent to handlers before the browser edits
+	 * the DOM. Handlers may call `event.intent.preventDefault()` to stop the
+	 * edit, and apply it themselves instead.
+	 */
+	intentOnly?: boolean
+	/**
+	 * How to decide which handlers receive each mutation.
+	 *
+	 * - "batch" (default): bubble the whole batch through the tree as it was
+	 *   before the batch.
+	 * - "replay": step through the batch in order, bubbling each mutation
+	 *   through the tree as it was when that mutation happened. Handlers receive
+	 *   several smaller events, one for each run of mutations with the same
+	 *   ancestors.
+	 *
+	 * @see RevertedTree
+	 */
+	dispatchMode?: "batch" | "replay"
+	/**
+	 * Called when a handler throws. The remaining handlers still run, and the
+	 * mutations are still reverted. By default, errors are thrown
+	 * asynchronously so they reach the console and error reporting.
+	 */
+	onMutationsError?: OnMutationsError
+	/**
+	 * Record edits and DOMLock.mutate calls as undoable transactions, and
+	 * handle undo and redo shortcuts and input.
+	 * @see useMutationHistory
+	 */
+	history?: MutationHistory
+	/** Parse the root's own content into the root model's `value`. */
+	parse?: (node: Node) => unknown
+	/**
+	 * Called after each batch that touched a Mutable with a `parse` function,
+	 * with a model of the whole document.
+	 */
+	onChange?: (model: MutableModel) => void
+	/**
+	 * What to do with mutations that no handler accepts or rejects, unless a
+	 * Mutable inside the root sets its own policy. Defaults to "revert".
+	 */
+	policy?: MutationPolicy
+	/**
+	 * Receives pastes that no Mutable inside the root stopped. When any
+	 * `onPaste` handler receives a paste, the browser doesn't paste by itself.
+	 */
+	onPaste?: OnPaste
+	/**
+	 * Serialize the selection for copy and cut, if no Mutable inside does.
+	 * @see ClipboardSerializer for what happens on cut.
+	 */
+	serialize?: ClipboardSerializer
+	/**
+	 * Handle key chords that no Mutable inside the root handled. Run before
+	 * the undo and redo shortcuts of `history`.
+	 */
+	keyCommands?: KeyCommands
+	/** Sanitize pasted HTML. Defaults to `sanitizeHtml`. */
+	sanitizeHtml?: HtmlSanitizer
+	/**
+	 * Serialize every batch, to save the editing session and replay it later.
+	 * @see replaySession
+	 */
+	recorder?: MutationRecorder
+	/**
+	 * Keeps a timeline of batches for MutableDevtools. Defaults to an
+	 * inspector available to components inside the root.
+	 */
+	inspector?: MutationInspector
+	/**
+	 * Measure and debug batches, handlers, reverts and the lock state. Defaults
+	 * to `defaultInstrumentation`, which is silent in production.
+	 * @see createLoggingInstrumentation
+	 */
+	instrumentation?: MutationInstrumentation
 }
 
 export type MutableRootProps<E extends React.ElementType> = PolymorphicProps<
@@ -31,69 +159,416 @@ const implementation = function MutableRoot<E extends React.ElementType>(
 	props: MutableRootProps<E>,
 	passedRef: Ref<Element>
 ) {
-	const { onMutations, disabled, children, ...polymorphicProps } = props
+	const {
+		onMutations,
+		onMutationsCapture,
+		disabled,
+		intentOnly,
+		dispatchMode,
+		onMutationsError,
+		history,
+		parse,
+		onChange,
+		policy,
+		onPaste,
+		serialize,
+		keyCommands,
+		sanitizeHtml: sanitizeHtmlProp,
+		recorder,
+		inspector: inspectorProp,
+		instrumentation: instrumentationProp,
+		children,
+		...polymorphicProps
+	} = props
 	const [registry] = useState(() => new MutableRegistry())
 	const [node, setNode] = useState<Node>()
 	const id = useRef({})
 
+	const pendingIntent = useRef<EditIntent>()
+	const historyRef = useRef(history)
+	historyRef.current = history
+	const onChangeRef = useRef(onChange)
+	onChangeRef.current = onChange
+	const recorderRef = useRef(recorder)
+	recorderRef.current = recorder
+	const [defaultInspector] = useState(() => new MutationInspector())
+	const inspector = inspectorProp ?? defaultInspector
+	const instrumentation = useMemo(
+		() =>
+			combineInstrumentation(
+				inspector,
+				instrumentationProp ?? defaultInstrumentation
+			),
+		[inspector, instrumentationProp]
+	)
+	const [modelBuilder] = useState(() => new ModelBuilder())
+	const onErrorRef = useRef(onMutationsError)
+	onErrorRef.current = onMutationsError
+	const invokeHandler = useCallback<InvokeHandler>((handler, event) => {
+		try {
+			return handler(event)
+		} catch (error) {
+			const onError = onErrorRef.current ?? reportUncaughtError
+			try {
+				onError(error, event, event.currentTarget)
+			} catch (onErrorError) {
+				reportUncaughtError(onErrorError)
+			}
+		}
+	}, [])
+
 	const handleAllMutations = useCallback<LowLevelOnMutations>(
-		mutations => {
-			const stopPropagationSet = new Set<MutationRecord>()
-			const revertedTree = RevertedTree.forMutations(mutations)
-			for (const [node, handler] of registry.depthFirstListeners) {
-				const filteredMutations = mutations.filter(mutation => {
-					if (stopPropagationSet.has(mutation)) {
-						return false
-					}
+		(mutations, batch) => {
+			if (mutations.length === 0) {
+				return
+			}
 
-					return revertedTree.mutationIsInside(mutation, node)
-				})
+			const intent = pendingIntent.current
+			pendingIntent.current = undefined
+			// Record first, so handlers can annotate the transaction.
+			historyRef.current?.recordMutations(
+				mutations,
+				intent?.inputType ??
+					(batch.composition ? "insertCompositionText" : undefined)
+			)
+			inspector.startBatch(mutations, intent?.inputType)
+			try {
+				recorderRef.current?.recordBatch(mutations, intent, batch.composition)
+			} catch (error) {
+				reportUncaughtError(error)
+			}
 
-				if (filteredMutations.length === 0) {
-					continue
+			let bubblePaths: Iterable<Node[]>
+			if (dispatchMode === "replay") {
+				const listenerNodes = registry.depthFirstListeners.map(([node]) => node)
+				const groups = RevertedTree.replay(mutations, listenerNodes)
+				for (const group of groups) {
+					dispatchMutations(
+						registry,
+						invokeHandler,
+						instrumentation,
+						group.mutations,
+						[group.path],
+						group.mutationIsInside,
+						intent,
+						batch
+					)
+				}
+				bubblePaths = groups.map(group => group.path)
+			} else {
+				// Bubble through the registered nodes as they were before the batch,
+				// and through the reverted tree for any other nodes.
+				const revertedTree = RevertedTree.forMutations(mutations)
+				const mutationPaths = new Map<MutationRecord, Node[]>()
+				for (const mutation of mutations) {
+					mutationPaths.set(
+						mutation,
+						registry.getBubblePath(revertedTree.ancestorsOf(mutation.target))
+					)
 				}
+				dispatchMutations(
+					registry,
+					invokeHandler,
+					instrumentation,
+					mutations,
+					mutationPaths.values(),
+					(mutation, node) =>
+						registry.nodeToHandlers.has(node)
+							? mutationPaths.get(mutation).includes(node)
+							: revertedTree.mutationIsInside(mutation, node),
+					intent,
+					batch
+				)
+				bubblePaths = mutationPaths.values()
+			}
 
-				const event: MutationsEvent = {
-					mutations: filteredMutations,
-					stopPropagation(records) {
-						records.forEach(record => stopPropagationSet.add(record))
-					},
-					mutationsIn(parentNode) {
-						return filteredMutations.filter(mutation =>
-							revertedTree.mutationIsInside(mutation, parentNode)
-						)
-					},
+			if (node && onChangeRef.current) {
+				// Parse before the batch is reverted.
+				try {
+					const model = modelBuilder.build(registry, node, bubblePaths)
+					if (model) {
+						onChangeRef.current(model)
+					}
+				} catch (error) {
+					reportUncaughtError(error)
 				}
+			}
+		},
+		[
+			registry,
+			invokeHandler,
+			inspector,
+			instrumentation,
+			dispatchMode,
+			node,
+			modelBuilder,
+		]
+	)
 
-				// TODO: dispatchEvent?
-				// TODO: what if it throws?
-				handler(event)
+	const handleIntent = useCallback(
+		(root: Node, intent: EditIntent) => {
+			let stopped = false
+			const shared: Omit<MutationsEvent, "currentTarget"> = {
+				mutations: [],
+				intent,
+				composition: undefined,
+				stopPropagation(records) {
+					if (!records) {
+						stopped = true
+					}
+				},
+				accept() {},
+				reject() {},
+				mutationsIn() {
+					return []
+				},
+				textChanges() {
+					return []
+				},
+				// There's nothing to revert yet, so select immediately.
+				selection: snapshotSelection(root),
+				setSelection(selection) {
+					if (selection) {
+						restoreSelection(root, selection)
+					}
+				},
+				// Nothing to revert, so apply right away.
+				commit(update) {
+					update()
+				},
+			}
+
+			const { outermostFirst, depthFirst } = registry.getListenersOnPaths([
+				registry.findAncestorPath(intent.target),
+			])
+			const listeners = [
+				...outermostFirst.map(
+					([node, handlers]) => [node, handlers.onMutationsCapture] as const
+				),
+				...depthFirst.map(
+					([node, handlers]) => [node, handlers.onMutations] as const
+				),
+			]
+			for (const [node, handler] of listeners) {
+				if (handler) {
+					invokeHandler(handler, { ...shared, currentTarget: node })
+				}
 
-				if (stopPropagationSet.size === mutations.length) {
-					// all mutations are stopped
+				if (stopped) {
 					break
 				}
 			}
 		},
-		[registry]
+		[registry, invokeHandler]
 	)
 
-	const locker = useRevertMutations(!props.disabled, handleAllMutations)
+	const intentOnlyRef = useRef(intentOnly)
+	intentOnlyRef.current = intentOnly
+	const sanitizeHtmlRef = useRef(sanitizeHtmlProp)
+	sanitizeHtmlRef.current = sanitizeHtmlProp
+	useEffect(() => {
+		if (!node) {
+			return
+		}
+
+		const onBeforeInput = (event: Event) => {
+			if (!claimEvent(event)) {
+				return
+			}
+
+			const intent = createEditIntent(event as InputEvent)
+			if (historyRef.current?.handleIntent(intent)) {
+				return
+			}
+
+			if (intentOnlyRef.current) {
+				handleIntent(node, intent)
+				if (intent.defaultPrevented) {
+					// The browser won't mutate the DOM, so there's no batch to attach to.
+					return
+				}
+			}
+
+			// Mutations caused by this event are delivered to our observer in a
+			// microtask, before the next task runs.
+			pendingIntent.current = intent
+			setTimeout(() => {
+				if (pendingIntent.current === intent) {
+					pendingIntent.current = undefined
+				}
+			})
+		}
+
+		const onKeyDown = (event: Event) => {
+			if (!claimEvent(event)) {
+				return
+			}
+
+			if (
+				dispatchKeyCommands(registry, event as KeyboardEvent, invokeHandler)
+			) {
+				return
+			}
+			if (historyRef.current?.handleKeyDown(event as KeyboardEvent)) {
+				return
+			}
+			skipIslandOnArrowKey(event as KeyboardEvent, registry)
+		}
+
+		// Widgets inside islands handle their own clipboard.
+		const claimClipboardEvent = (event: Event) =>
+			claimEvent(event) && !isInsideIsland(registry, event.target as Node)
+
+		const onPaste = (event: Event) => {
+			if (!claimClipboardEvent(event)) {
+				return
+			}
+
+			// Handlers insert the sanitized paste themselves. Without any, the
+			// browser pastes, and the lock dispatches and reverts it like any edit.
+			const handled = dispatchPaste(
+				registry,
+				node,
+				event as ClipboardEvent,
+				sanitizeHtmlRef.current ?? sanitizeHtml,
+				invokeHandler
+			)
+			if (handled) {
+				event.preventDefault()
+			}
+		}
+
+		const onCopyOrCut = (event: Event) => {
+			const clipboardEvent = event as ClipboardEvent
+			if (!claimClipboardEvent(event) || !clipboardEvent.clipboardData) {
+				return
+			}
+
+			const serialized = serializeSelection(registry, node)
+			if (!serialized) {
+				// The browser copies, or cuts with a deleteByCut intent.
+				return
+			}
+
+			const [content, range] = serialized
+			clipboardEvent.clipboardData.setData(
+				"text/plain",
+				content.text ?? range.toString()
+			)
+			if (content.html !== undefined) {
+				clipboardEvent.clipboardData.setData("text/html", content.html)
+			}
+			event.preventDefault()
+
+			if (event.type === "cut") {
+				// We stopped the browser's cut, so ask handlers to delete instead.
+				const InputEventInRealm = getWindow(node)?.InputEvent ?? InputEvent
+				const intent = createEditIntent(
+					new InputEventInRealm("beforeinput", {
+						inputType: "deleteByCut",
+						cancelable: true,
+					}),
+					[range]
+				)
+				handleIntent(node, intent)
+			}
+		}
+
+		node.addEventListener("beforeinput", onBeforeInput)
+		node.addEventListener("keydown", onKeyDown)
+		node.addEventListener("paste", onPaste)
+		node.addEventListener("copy", onCopyOrCut)
+		node.addEventListener("cut", onCopyOrCut)
+		return () => {
+			node.removeEventListener("beforeinput", onBeforeInput)
+			node.removeEventListener("keydown", onKeyDown)
+			node.removeEventListener("paste", onPaste)
+			node.removeEventListener("copy", onCopyOrCut)
+			node.removeEventListener("cut", onCopyOrCut)
+		}
+	}, [node, handleIntent, registry, invokeHandler])
+
+	// Render read-only on the server and while hydrating, and only lock once
+	// hydration commits, so it never looks like the user edited anything.
+	const hydrated = useHydrated()
+	const editable = hydrated && !props.disabled
+	const locker = useRevertMutations(editable, handleAllMutations, {
+		onBeforeObserve: () => registry.snapshot(),
+		instrumentation,
+	})
 	const contextValue = useMemo<MutationsContext>(() => {
+		const lock: DOMLock = history
+			? {
+					...locker,
+					// Record inside the callback, after `mutate` flushes pending edits
+					// into their own transactions.
+					mutate: fn =>
+						locker.mutate(root => {
+							history.recordMutate()
+							return fn(root)
+						}),
+			  }
+			: locker
 		return {
-			lock: locker,
+			lock,
 			registry,
+			history,
+			inspector,
+			applyPatches: patches =>
+				locker.mutate(root => {
+					if (root) {
+						applyPatches(root, patches)
+					}
+				}),
 		}
-	}, [locker, registry])
+	}, [locker, registry, history, inspector])
 
+	// A root nested inside another root owns its subtree: the outer root
+	// doesn't revert or dispatch mutations inside it.
+	const parentContext = useContext(mutationsContext)
+	const [noParentLock] = useState(() => new IndirectDOMLock(undefined))
+	const parentLock = parentContext?.lock ?? noParentLock
+	useUnlockForRender(parentLock)
+	useIsomorphicLayoutEffect(() => {
+		if (node) {
+			return parentLock.claimSubtree(node, locker)
+		}
+	}, [parentLock, node, locker])
+
+	const handlers = useMemo(
+		() => ({
+			onMutations,
+			onMutationsCapture,
+			parse,
+			policy,
+			onPaste,
+			serialize,
+			keyCommands,
+		}),
+		[
+			onMutations,
+			onMutationsCapture,
+			parse,
+			policy,
+			onPaste,
+			serialize,
+			keyCommands,
+		]
+	)
 	useEffect(() => {
 		if (node) {
-			return registry.register(id.current, node, onMutations)
+			return registry.register(id.current, node, handlers)
 		}
-	}, [node, onMutations])
+	}, [registry, node, handlers])
+
+	useEffect(() => {
+		if (node) {
+			recorder?.attach(node)
+		}
+	}, [recorder, node])
 
 	const mergedRef = useMergeRefs([setNode, locker.ref, passedRef])
-	const contentEditable = props.disabled ? undefined : true
+	const contentEditable = editable ? true : undefined
 	return (
 		<mutationsContext.Provider value={contextValue}>
 			<Polymorphic
@@ -108,22 +583,200 @@ const implementation = function MutableRoot<E extends React.ElementType>(
 	)
 }
 
-// TODO: mutations may change the DOM nesting structure as expected in depthFirstListeners.
-//       we actually need to inspect the mutations array and compute the previous DOM hierarchy
-//       so we can simulate event bubbling in the previous hierarchy, instead of relying
-//       on the actual DOM structure post-mutation.
-//
-//       This is quite a tricky idea, actually...
-function incorrectMutationIsInside(
+// Events inside a nested root reach it before they bubble to the outer root.
+const claimedEvents = new WeakSet<Event>()
+
+/**
+ * @returns false if a nested root already handled `event`.
+ */
+function claimEvent(event: Event): boolean {
+	if (claimedEvents.has(event)) {
+		return false
+	}
+	claimedEvents.add(event)
+	return true
+}
+
+/**
+ * Call a handler, reporting any error it throws.
+ * @returns What the handler returned, or undefined if it threw.
+ */
+type InvokeHandler = <
+	E extends MutationsEvent | PasteEvent | KeyCommandEvent,
+	R
+>(
+	handler: (event: E) => R,
+	event: E
+) => R | undefined
+
+/**
+ * Dispatch `mutations` to the capture handlers on their `bubblePaths`,
+ * outermost first, and then bubble them through the handlers on those paths,
+ * deepest first. Mutations stopped during the capture phase don't reach the
+ * bubble phase.
+ *
+ * Each Mutable only receives the mutations its `observe` filter matches.
+ * Mutations that no handler receives are allowed through if a Mutable they're
+ * inside asked for that with `unobserved: "allow"`.
+ *
+ * Afterwards, each mutation is kept if the last handler to decide accepted it.
+ * Undecided mutations follow the `policy` of the closest Mutable with one.
+ */
+function dispatchMutations(
+	registry: MutableRegistry,
+	invokeHandler: InvokeHandler,
+	instrumentation: MutationInstrumentation,
+	mutations: MutationRecord[],
+	bubblePaths: Iterable<Node[]>,
+	mutationIsInside: (mutation: MutationRecord, node: Node) => boolean,
+	intent: EditIntent | undefined,
+	batch: MutationBatch
+) {
+	const stopPropagationSet = new Set<MutationRecord>()
+	const received = new Set<MutationRecord>()
+	const allowed = new Set<MutationRecord>()
+	// true to accept, false to reject
+	const decisions = new Map<MutationRecord, boolean>()
+	// Only the Mutables on the mutations' paths can receive them.
+	const { outermostFirst, depthFirst } =
+		registry.getListenersOnPaths(bubblePaths)
+	const phases = [
+		outermostFirst.map(
+			([node, handlers]) =>
+				[node, handlers, handlers.onMutationsCapture, "capture"] as const
+		),
+		depthFirst.map(
+			([node, handlers]) =>
+				[node, handlers, handlers.onMutations, "bubble"] as const
+		),
+	]
+
+	dispatch: for (const listeners of phases) {
+		for (const [node, handlers, handler, phase] of listeners) {
+			if (!handler && handlers.unobserved !== "allow") {
+				continue
+			}
+
+			const filteredMutations = mutations.filter(mutation => {
+				if (
+					stopPropagationSet.has(mutation) ||
+					!mutationIsInside(mutation, node)
+				) {
+					return false
+				}
+
+				if (!matchesFilter(mutation, handlers.observe)) {
+					if (handlers.unobserved === "allow") {
+						allowed.add(mutation)
+					}
+					return false
+				}
+
+				return true
+			})
+
+			if (!handler || filteredMutations.length === 0) {
+				continue
+			}
+
+			const event: MutationsEvent = {
+				mutations: filteredMutations,
+				currentTarget: node,
+				intent,
+				composition: batch.composition,
+				stopPropagation(records = filteredMutations) {
+					records.forEach(record => stopPropagationSet.add(record))
+				},
+				accept(records = filteredMutations) {
+					records.forEach(record => decisions.set(record, true))
+				},
+				reject(records = filteredMutations) {
+					records.forEach(record => decisions.set(record, false))
+				},
+				mutationsIn(parentNode) {
+					return filteredMutations.filter(mutation =>
+						mutationIsInside(mutation, parentNode)
+					)
+				},
+				textChanges() {
+					return computeTextChanges(filteredMutations, node)
+				},
+				selection: batch.selection,
+				setSelection: batch.setSelection,
+				commit: batch.commit,
+			}
+
+			// TODO: dispatchEvent?
+			filteredMutations.forEach(mutation => received.add(mutation))
+			const stoppedBefore = stopPropagationSet.size
+			const start = now()
+			invokeHandler(handler, event)
+			instrumentation.onDispatch?.(node, filteredMutations, {
+				phase,
+				duration: now() - start,
+				stopped:
+					stopPropagationSet.size === stoppedBefore
+						? []
+						: Array.from(stopPropagationSet).slice(stoppedBefore),
+			})
+
+			if (stopPropagationSet.size === mutations.length) {
+				// all mutations are stopped
+				break dispatch
+			}
+		}
+	}
+
+	// Deepest first, so the first match is the closest.
+	const policies = depthFirst.filter(([, handlers]) => handlers.policy)
+	const undecided = new Map<Node, MutationRecord[]>()
+	batch.allow(
+		mutations.filter(mutation => {
+			const decision = decisions.get(mutation)
+			if (decision !== undefined) {
+				return decision
+			}
+
+			if (allowed.has(mutation) && !received.has(mutation)) {
+				return true
+			}
+
+			const [node, handlers] =
+				policies.find(([node]) => mutationIsInside(mutation, node)) ?? []
+			if (node && handlers?.policy === "handler-decides") {
+				undecided.set(node, [...(undecided.get(node) ?? []), mutation])
+			}
+			return handlers?.policy === "accept"
+		})
+	)
+	undecided.forEach((mutations, node) =>
+		instrumentation.onUndecided?.(node, mutations)
+	)
+}
+
+/**
+ * @returns true if `filter` lets a Mutable receive `mutation`.
+ */
+function matchesFilter(
 	mutation: MutationRecord,
-	node: Node
+	filter: MutationFilter | undefined
 ): boolean {
-	if (mutation.target === node) {
+	if (!filter) {
 		return true
 	}
 
-	const position = node.compareDocumentPosition(mutation.target)
-	return Boolean(position & Node.DOCUMENT_POSITION_CONTAINED_BY)
+	switch (mutation.type) {
+		case "childList":
+			return Boolean(filter.childList)
+		case "characterData":
+			return Boolean(filter.characterData)
+		case "attributes":
+			if (filter.attributeFilter) {
+				return filter.attributeFilter.includes(mutation.attributeName ?? "")
+			}
+			return Boolean(filter.attributes)
+	}
+	return false
 }
 
 export const MutableRoot = forwardRef(implementation) as <
@@ -159,9 +812,9 @@ export const MutableRoot = forwardRef(implementation) as <
  * decide what parts of the tree to re-parse entirely, instead of trying to
  * assign a semantic meaning to each mutation event.
  *
- * Maybe what we should do, is revert all the mutations (as we do here),
- * and then step through them in order, re-applying the mutation to our
- * reverted tree and then bubbling each event in order? Yikes...
+ * So, there's a second mode, `RevertedTree.replay`: revert all the mutations
+ * (as we do here), and then step through them in order, bubbling each
+ * mutation through the tree as it was at that moment, and then re-applying it:
  *
  * const tree = revertAll(mutations)
  * while (mutations.length) {
@@ -170,6 +823,10 @@ export const MutableRoot = forwardRef(implementation) as <
  *   tree.apply(mutation)
  * }
  *
+ * In the example above, the "D added" mutation bubbles to C, and then the "foo"
+ * change bubbles to C as well. Changes to D while it's detached are held until D
+ * is added back, and then bubble from D's new position.
+ *
  * That's awkward because to understand an individual mutation event, you might
  * need the remaining mutations in a batch, right? Or is it silly to try to
  * batch mutations in this system? I guess any consumer of mutation events
@@ -188,24 +845,112 @@ export class RevertedTree {
 		return instance
 	}
 
-	// TODO: We should consider memoization or some other form of optimization here.
-	// Mutation lists can be long, and looking up the tree is O(n) of depth...
+	/**
+	 * Step through `mutations` in order, and group together consecutive
+	 * mutations that bubble through the same `listenerNodes`.
+	 */
+	static replay(
+		mutations: MutationRecord[],
+		listenerNodes: Node[]
+	): ReplayGroup[] {
+		const tree = RevertedTree.forMutations(mutations)
+		const groups: ReplayGroup[] = []
+		// Mutations inside a detached subtree, by the root of that subtree.
+		const held = new Map<Node, MutationRecord[]>()
+
+		const bubble = (mutation: MutationRecord) => {
+			const ancestors = tree.ancestorsOf(mutation.target)
+			const detachedRoot = tree.detachedRootOf(mutation.target)
+			if (detachedRoot) {
+				const heldMutations = held.get(detachedRoot) ?? []
+				heldMutations.push(mutation)
+				held.set(detachedRoot, heldMutations)
+				return
+			}
+
+			const path = listenerNodes.filter(node => ancestors.has(node))
+			const last = groups[groups.length - 1]
+			if (last && arraysEqual(last.path, path)) {
+				last.mutations.push(mutation)
+				last.ancestors.set(mutation, ancestors)
+				return
+			}
+
+			const group: ReplayGroup = {
+				path,
+				mutations: [mutation],
+				ancestors: new Map([[mutation, ancestors]]),
+				mutationIsInside: (mutation, node) =>
+					Boolean(group.ancestors.get(mutation)?.has(node)),
+			}
+			groups.push(group)
+		}
+
+		for (const mutation of mutations) {
+			bubble(mutation)
+			tree.applyDOMMutation(mutation)
+			mutation.addedNodes.forEach(addedNode => {
+				const heldMutations = held.get(addedNode)
+				if (heldMutations) {
+					held.delete(addedNode)
+					heldMutations.forEach(bubble)
+				}
+			})
+		}
+
+		// Never re-attached. Bubble from where they were detached.
+		for (const [detachedRoot, heldMutations] of held) {
+			tree.reattach(detachedRoot)
+			heldMutations.forEach(bubble)
+		}
+
+		return groups
+	}
+
 	// TODO: as a basic optimization, we should stop bubbling at a given root node.
-	mutationIsInside(mutation: MutationRecord, node: Node): boolean {
+	mutationIsInside = (mutation: MutationRecord, node: Node): boolean => {
 		if (mutation.target === node) {
 			return true
 		}
 
-		let parent = this.getRevertedNode(node)
-		while ((parent = parent.parentNode)) {
-			if (parent.node === node) {
-				return true
-			}
+		return this.ancestorsOf(mutation.target).has(node)
+	}
+
+	/**
+	 * @returns `node` and its ancestors in the tree's current state. Detached
+	 *   nodes bubble through the parent they were last attached to.
+	 */
+	ancestorsOf(node: Node): Set<Node> {
+		const cached = this.ancestorsCache.get(node)
+		if (cached) {
+			return cached
 		}
-		return false
+
+		const ancestors = new Set<Node>()
+		let current: RevertedNode | undefined = this.getRevertedNode(node)
+		while (current && !ancestors.has(current.node)) {
+			ancestors.add(current.node)
+			current = current.parentNode ?? current.lastParentNode
+		}
+		this.ancestorsCache.set(node, ancestors)
+		return ancestors
+	}
+
+	/**
+	 * @returns The root of the detached subtree containing `node`, if `node`
+	 *   was detached from the tree by a mutation.
+	 */
+	detachedRootOf(node: Node): Node | undefined {
+		let current = this.getRevertedNode(node)
+		let parent: RevertedNode | undefined
+		while ((parent = current.parentNode)) {
+			current = parent
+		}
+		return current.previousParent === null ? current.node : undefined
 	}
 
 	revertDOMMutation(mutation: MutationRecord) {
+		this.ancestorsCache = new Map()
 		switch (mutation.type) {
 			case "attributes": {
 				return
@@ -226,24 +971,67 @@ export class RevertedTree {
 					// Nodes added here must have been removed from elsewhere...
 					// Is it right to revert these? We could end up losing mutations if we
 					// do so...
-					this.getRevertedNode(addedNode).setPreviousParent(null)
+					this.getRevertedNode(addedNode).detachFrom(mutation.target)
 				}
 				return
 			}
 		}
 	}
 
+	/**
+	 * Re-apply a mutation previously reverted by `revertDOMMutation`.
+	 */
+	applyDOMMutation(mutation: MutationRecord) {
+		this.ancestorsCache = new Map()
+		if (mutation.type !== "childList") {
+			return
+		}
+
+		mutation.removedNodes.forEach(removedNode =>
+			this.getRevertedNode(removedNode).detachFrom(mutation.target)
+		)
+		mutation.addedNodes.forEach(addedNode =>
+			this.getRevertedNode(addedNode).setPreviousParent(mutation.target)
+		)
+	}
+
+	/**
+	 * Attach a detached node back to the parent it was last attached to.
+	 */
+	reattach(node: Node) {
+		this.ancestorsCache = new Map()
+		this.getRevertedNode(node).attachToLastParent()
+	}
+
 	getRevertedNode = (node: Node): RevertedNode<Node> => {
 		const instance =
 			this.nodeMap.get(node) ?? new RevertedNode(node, this.getRevertedNode)
 		this.nodeMap.set(node, instance)
 		return instance
 	}
+
+	private ancestorsCache = new Map<Node, Set<Node>>()
+}
+
+export interface ReplayGroup {
+	/** Listener nodes these mutations bubble through, deepest first */
+	path: Node[]
+	mutations: MutationRecord[]
+	/** Ancestors of each mutation's target at the moment it happened */
+	ancestors: Map<MutationRecord, Set<Node>>
+	mutationIsInside(mutation: MutationRecord, node: Node): boolean
+}
+
+function arraysEqual<T>(a: readonly T[], b: readonly T[]) {
+	return a.length === b.length && a.every((value, i) => value === b[i])
 }
 
 export class RevertedNode<T extends Node = Node> {
 	node: T
+	/** The parent in the tree's current state. `null` when detached. */
 	previousParent: T | null | undefined = undefined
+	/** The parent a detached node was removed from, or will be added to. */
+	lastParent: T | undefined = undefined
 
 	constructor(node: T, forNode: (node: T) => RevertedNode<T>) {
 		this.getRevertedNode = forNode
@@ -263,9 +1051,22 @@ export class RevertedNode<T extends Node = Node> {
 		}
 	}
 
+	get lastParentNode(): RevertedNode<T> | undefined {
+		return this.lastParent && this.getRevertedNode(this.lastParent)
+	}
+
 	setPreviousParent(node: T | null) {
 		this.previousParent = node
 	}
 
+	detachFrom(parent: T) {
+		this.previousParent = null
+		this.lastParent = parent
+	}
+
+	attachToLastParent() {
+		this.previousParent = this.lastParent
+	}
+
 	private getRevertedNode: (node: T) => RevertedNode<T>
 }
@@ -0,0 +1,247 @@
+import { useContext, useEffect, useState } from "react"
+import { isMac } from "./keyCommands"
+import { EditIntent } from "./types"
+import { mutationsContext } from "./useMutations"
+
+export interface HistoryTransaction {
+	readonly id: number
+	/** "input" for batches of user edits, "mutate" for DOMLock.mutate calls. */
+	readonly kind: "input" | "mutate"
+	/** The input types of the edits in this transaction, if known. */
+	readonly inputTypes: string[]
+	readonly mutations: MutationRecord[]
+	readonly startedAt: number
+	updatedAt: number
+	/** Application data, added with `MutationHistory.annotate`. */
+	readonly metadata: Record<string, unknown>
+}
+
+export interface MutationHistoryOptions {
+	/**
+	 * Consecutive typing or deleting within this many milliseconds is merged
+	 * into one transaction. Defaults to 500.
+	 */
+	mergeWindow?: number
+	/**
+	 * Revert the application state changed by `transaction`. The DOM was
+	 * already reverted by the lock, so this is the only way to undo.
+	 */
+	onUndo(transaction: HistoryTransaction): void
+	/** Re-apply the application state changed by `transaction`. */
+	onRedo(transaction: HistoryTransaction): void
+}
+
+const MERGEABLE_INPUT_TYPES = new Set([
+	"insertText",
+	"insertCompositionText",
+	"deleteContentBackward",
+	"deleteContentForward",
+])
+
+/**
+ * Undo/redo stacks of the edits dispatched by a MutableRoot. Since the lock
+ * reverts every edit, the browser's own undo stack is useless. Instead, pass a
+ * MutationHistory to MutableRoot's `history` prop, and apply undo and redo
+ * to your application state in `onUndo` and `onRedo`.
+ */
+export class MutationHistory {
+	undoStack: HistoryTransaction[] = []
+	redoStack: HistoryTransaction[] = []
+	private nextId = 1
+	private listeners = new Set<() => void>()
+
+	constructor(public options: MutationHistoryOptions) {}
+
+	/** Record a batch of user edits, merging it with the last one if it's typing. */
+	recordMutations(
+		mutations: readonly MutationRecord[],
+		inputType: string | undefined
+	) {
+		const last = this.undoStack[this.undoStack.length - 1]
+		const now = Date.now()
+		const mergeWindow = this.options.mergeWindow ?? 500
+		if (
+			last &&
+			last.kind === "input" &&
+			inputType &&
+			MERGEABLE_INPUT_TYPES.has(inputType) &&
+			last.inputTypes[last.inputTypes.length - 1] === inputType &&
+			now - last.updatedAt <= mergeWindow &&
+			this.redoStack.length === 0
+		) {
+			last.inputTypes.push(inputType)
+			last.mutations.push(...mutations)
+			last.updatedAt = now
+			this.emitChange()
+			return
+		}
+
+		this.push("input", mutations, inputType, {})
+	}
+
+	/** Record a programmatic DOMLock.mutate call as its own transaction. */
+	recordMutate(metadata: Record<string, unknown> = {}) {
+		this.push("mutate", [], undefined, metadata)
+	}
+
+	/**
+	 * Add application data to the latest transaction. Call this from a
+	 * mutation handler to describe the change it made.
+	 */
+	annotate(metadata: Record<string, unknown>) {
+		const last = this.undoStack[this.undoStack.length - 1]
+		if (last) {
+			Object.assign(last.metadata, metadata)
+		}
+	}
+
+	canUndo() {
+		return this.undoStack.length > 0
+	}
+
+	canRedo() {
+		return this.redoStack.length > 0
+	}
+
+	undo(): boolean {
+		const transaction = this.undoStack.pop()
+		if (!transaction) {
+			return false
+		}
+		this.redoStack.push(transaction)
+		this.options.onUndo(transaction)
+		this.emitChange()
+		return true
+	}
+
+	redo(): boolean {
+		const transaction = this.redoStack.pop()
+		if (!transaction) {
+			return false
+		}
+		this.undoStack.push(transaction)
+		this.options.onRedo(transaction)
+		this.emitChange()
+		return true
+	}
+
+	/**
+	 * Handle a `historyUndo` or `historyRedo` intent, eg from the Edit menu.
+	 * @returns true if handled
+	 */
+	handleIntent(intent: EditIntent): boolean {
+		switch (intent.inputType) {
+			case "historyUndo":
+				intent.preventDefault()
+				this.undo()
+				return true
+			case "historyRedo":
+				intent.preventDefault()
+				this.redo()
+				return true
+		}
+		return false
+	}
+
+	/**
+	 * Handle undo and redo keyboard shortcuts.
+	 * @returns true if handled
+	 */
+	handleKeyDown(event: KeyboardEvent): boolean {
+		const mod = isMac ? event.metaKey : event.ctrlKey
+		if (!mod || event.altKey) {
+			return false
+		}
+
+		const key = event.key.toLowerCase()
+		if (key === "z") {
+			event.preventDefault()
+			if (event.shiftKey) {
+				this.redo()
+			} else {
+				this.undo()
+			}
+			return true
+		}
+
+		if (key === "y" && !isMac) {
+			event.preventDefault()
+			this.redo()
+			return true
+		}
+
+		return false
+	}
+
+	subscribe(listener: () => void) {
+		this.listeners.add(listener)
+		return () => {
+			this.listeners.delete(listener)
+		}
+	}
+
+	private push(
+		kind: HistoryTransaction["kind"],
+		mutations: readonly MutationRecord[],
+		inputType: string | undefined,
+		metadata: Record<string, unknown>
+	) {
+		const now = Date.now()
+		this.undoStack.push({
+			id: this.nextId++,
+			kind,
+			inputTypes: inputType ? [inputType] : [],
+			mutations: mutations.slice(),
+			startedAt: now,
+			updatedAt: now,
+			metadata: { ...metadata },
+		})
+		this.redoStack = []
+		this.emitChange()
+	}
+
+	private emitChange() {
+		this.listeners.forEach(listener => listener())
+	}
+}
+
+/**
+ * Create a MutationHistory that always calls the latest `onUndo` and `onRedo`.
+ */
+export function useMutationHistory(
+	options: MutationHistoryOptions
+): MutationHistory {
+	const [history] = useState(() => new MutationHistory(options))
+	history.options = options
+	return history
+}
+
+export interface UseHistoryResult {
+	canUndo: boolean
+	canRedo: boolean
+	undo(): void
+	redo(): void
+}
+
+/**
+ * Subscribe to undo/redo availability.
+ * @param history Defaults to the history of the closest MutableRoot.
+ */
+export function useHistory(history?: MutationHistory): UseHistoryResult {
+	const context = useContext(mutationsContext)
+	const target = history ?? context?.history
+	const [, forceUpdate] = useState(0)
+
+	useEffect(() => {
+		if (target) {
+			return target.subscribe(() => forceUpdate(n => n + 1))
+		}
+	}, [target])
+
+	return {
+		canUndo: target?.canUndo() ?? false,
+		canRedo: target?.canRedo() ?? false,
+		undo: () => target?.undo(),
+		redo: () => target?.redo(),
+	}
+}
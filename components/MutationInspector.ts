@@ -0,0 +1,121 @@
+import {
+	DispatchInfo,
+	LockState,
+	MutationInstrumentation,
+} from "./instrumentation"
+
+export interface InspectedDispatch extends DispatchInfo {
+	/** The Mutable whose handler received the records. */
+	readonly node: Node
+	readonly mutations: readonly MutationRecord[]
+}
+
+export interface InspectedBatch {
+	readonly id: number
+	readonly timestamp: number
+	readonly inputType: string | undefined
+	readonly mutations: readonly MutationRecord[]
+	/** The text each `characterData` record changed its node to. */
+	readonly newValues: Map<MutationRecord, string>
+	readonly dispatches: InspectedDispatch[]
+	/** Records that were rolled back, with the error if that failed. */
+	readonly reverts: Map<MutationRecord, { ok: boolean; error?: unknown }>
+}
+
+/**
+ * Keeps a timeline of what a MutableRoot did with each batch, for
+ * MutableDevtools. Nothing is kept while no one is subscribed.
+ */
+export class MutationInspector implements MutationInstrumentation {
+	batches: InspectedBatch[] = []
+	lockState: LockState = "unlocked"
+	private nextId = 1
+	private listeners = new Set<() => void>()
+
+	/**
+	 * @param limit How many batches to keep. Batches hold on to their records'
+	 *   nodes, so keep this small.
+	 */
+	constructor(public limit = 50) {}
+
+	get isActive() {
+		return this.listeners.size > 0
+	}
+
+	startBatch(mutations: readonly MutationRecord[], inputType?: string) {
+		if (!this.isActive) {
+			return
+		}
+
+		this.batches = [
+			{
+				id: this.nextId++,
+				timestamp: Date.now(),
+				inputType,
+				mutations,
+				newValues: getNewValues(mutations),
+				dispatches: [],
+				reverts: new Map(),
+			},
+			...this.batches.slice(0, this.limit - 1),
+		]
+		this.emitChange()
+	}
+
+	onDispatch(
+		node: Node,
+		mutations: readonly MutationRecord[],
+		info: DispatchInfo
+	) {
+		if (!this.isActive) {
+			return
+		}
+		this.batches[0]?.dispatches.push({ ...info, node, mutations })
+		this.emitChange()
+	}
+
+	onRevert(mutation: MutationRecord, ok: boolean, error?: unknown) {
+		const batch = this.batches[0]
+		if (this.isActive && batch?.mutations.includes(mutation)) {
+			batch.reverts.set(mutation, { ok, error })
+			this.emitChange()
+		}
+	}
+
+	onLockStateChange(lockState: LockState) {
+		if (this.lockState !== lockState) {
+			this.lockState = lockState
+			this.emitChange()
+		}
+	}
+
+	clear() {
+		this.batches = []
+		this.emitChange()
+	}
+
+	subscribe(listener: () => void) {
+		this.listeners.add(listener)
+		return () => {
+			this.listeners.delete(listener)
+		}
+	}
+
+	private emitChange() {
+		this.listeners.forEach(listener => listener())
+	}
+}
+
+function getNewValues(mutations: readonly MutationRecord[]) {
+	const newValues = new Map<MutationRecord, string>()
+	const values = new Map<Node, string>()
+	for (let i = mutations.length - 1; i >= 0; i--) {
+		const mutation = mutations[i]
+		if (mutation.type === "characterData") {
+			const node = mutation.target as CharacterData
+			newValues.set(mutation, values.get(node) ?? node.data)
+			values.set(node, mutation.oldValue ?? "")
+		}
+	}
+	return newValues
+}
@@ -0,0 +1,481 @@
+import { getNodePath, NodePath } from "./selection"
+import { EditIntent } from "./types"
+
+/** A JSON snapshot of a node and its subtree. */
+export type SerializedNode =
+	| { readonly type: "text"; readonly data: string }
+	| { readonly type: "comment"; readonly data: string }
+	| {
+			readonly type: "element"
+			readonly tagName: string
+			readonly namespace: string | null
+			readonly attributes: readonly SerializedAttribute[]
+			readonly children: readonly SerializedNode[]
+	  }
+
+export interface SerializedAttribute {
+	readonly name: string
+	readonly namespace: string | null
+	readonly value: string
+}
+
+/**
+ * Identifies a node by its path from the root or, while it's detached, from
+ * a node removed earlier in the same batch.
+ */
+export interface SerializedTarget {
+	readonly path: NodePath
+	/** The index of the mutation that removed the detached node, and its index in `removed`. */
+	readonly detachedBy?: readonly [number, number]
+}
+
+export type SerializedMutation =
+	| {
+			readonly type: "characterData"
+			readonly target: SerializedTarget
+			readonly oldValue: string
+			readonly value: string
+	  }
+	| {
+			readonly type: "attributes"
+			readonly target: SerializedTarget
+			readonly name: string
+			readonly namespace: string | null
+			readonly oldValue: string | null
+			readonly value: string | null
+	  }
+	| {
+			readonly type: "childList"
+			readonly target: SerializedTarget
+			/** Where the removed nodes were, and where the added nodes go. */
+			readonly index: number
+			readonly removed: readonly SerializedNode[]
+			/** New nodes, or nodes moved back in after being removed in this batch. */
+			readonly added: ReadonlyArray<
+				| SerializedNode
+				| { readonly type: "moved"; readonly from: SerializedTarget }
+			>
+	  }
+
+export interface SerializedBatch {
+	/** When the batch was dispatched, from Date.now(). */
+	readonly timestamp: number
+	readonly intent:
+		| {
+				readonly inputType: string
+				readonly data: string | null
+				readonly target: NodePath
+		  }
+		| undefined
+	readonly composition: { readonly data: string } | undefined
+	readonly mutations: readonly SerializedMutation[]
+}
+
+/** Everything needed to replay an editing session. Safe to JSON.stringify. */
+export interface RecordedSession {
+	/** The root when recording started. */
+	readonly initial: SerializedNode
+	readonly batches: SerializedBatch[]
+}
+
+/**
+ * Records the batches of a MutableRoot as JSON, for bug reports and tests.
+ * Pass it to MutableRoot's `recorder` prop, and replay the session with
+ * `replaySession`.
+ *
+ * MutationRecords describe each change relative to the DOM at the time of that
+ * change, which is gone by the time the batch is dispatched. To describe
+ * records by path, we clone the root, revert the batch on the clone, and then
+ * step through the batch again. That's O(size of the root) per batch, so only
+ * record when you need to.
+ */
+export class MutationRecorder {
+	session: RecordedSession | undefined
+	private root: Node | undefined
+
+	/**
+	 * Start recording `root`, from a snapshot of its current DOM. Called by
+	 * MutableRoot.
+	 */
+	attach(root: Node) {
+		if (this.root !== root) {
+			this.root = root
+			this.session = { initial: serializeNode(root), batches: [] }
+		}
+	}
+
+	/**
+	 * Record a batch, before it's reverted. Called by MutableRoot.
+	 */
+	recordBatch(
+		mutations: readonly MutationRecord[],
+		intent: EditIntent | undefined,
+		composition: { data: string } | undefined
+	) {
+		const root = this.root
+		if (!root || !this.session) {
+			return
+		}
+
+		const clones = new Map<Node, Node>()
+		const rootClone = cloneTree(root, clones)
+		const cloneOf = (node: Node) => {
+			if (!clones.has(node)) {
+				// Detached, or moved out of the root: clone its whole subtree.
+				let top = node
+				while (
+					top.parentNode &&
+					top.parentNode.nodeType !== node.DOCUMENT_NODE
+				) {
+					top = top.parentNode
+				}
+				cloneTree(top, clones)
+			}
+			return clones.get(node) as Node
+		}
+		for (const mutation of mutations) {
+			cloneOf(mutation.target)
+			mutation.addedNodes.forEach(cloneOf)
+			mutation.removedNodes.forEach(cloneOf)
+			if (mutation.nextSibling) {
+				cloneOf(mutation.nextSibling)
+			}
+		}
+
+		// Revert the clone to the state before the batch, remembering the values
+		// each mutation set.
+		const values = new Map<MutationRecord, string | null>()
+		for (let i = mutations.length - 1; i >= 0; i--) {
+			const mutation = mutations[i]
+			const target = cloneOf(mutation.target)
+			switch (mutation.type) {
+				case "characterData":
+					values.set(mutation, (target as CharacterData).data)
+					;(target as CharacterData).data = mutation.oldValue ?? ""
+					break
+				case "attributes":
+					values.set(
+						mutation,
+						(target as Element).getAttributeNS(
+							mutation.attributeNamespace,
+							mutation.attributeName ?? ""
+						)
+					)
+					setAttribute(target as Element, mutation, mutation.oldValue)
+					break
+				case "childList": {
+					mutation.addedNodes.forEach(node => {
+						const clone = cloneOf(node)
+						clone.parentNode?.removeChild(clone)
+					})
+					const nextSibling =
+						mutation.nextSibling && cloneOf(mutation.nextSibling)
+					mutation.removedNodes.forEach(node => {
+						target.insertBefore(cloneOf(node), nextSibling)
+					})
+					break
+				}
+			}
+		}
+
+		// Step through the batch again, describing each mutation as of the DOM
+		// right before it.
+		const detachedRoots = new Map<Node, readonly [number, number]>()
+		const serializeTarget = (node: Node): SerializedTarget | undefined => {
+			let top = node
+			while (top.parentNode && top !== rootClone) {
+				top = top.parentNode
+			}
+			const path = getNodePath(top, node) as NodePath
+			if (top === rootClone) {
+				return { path }
+			}
+			const detachedBy = detachedRoots.get(top)
+			return detachedBy && { path, detachedBy }
+		}
+
+		const serialized: SerializedMutation[] = []
+		mutations.forEach(mutation => {
+			const target = cloneOf(mutation.target)
+			const serializedTarget = serializeTarget(target)
+			const i = serialized.length
+			switch (mutation.type) {
+				case "characterData": {
+					const value = values.get(mutation) ?? ""
+					;(target as CharacterData).data = value
+					if (serializedTarget) {
+						serialized.push({
+							type: "characterData",
+							target: serializedTarget,
+							oldValue: mutation.oldValue ?? "",
+							value,
+						})
+					}
+					break
+				}
+				case "attributes": {
+					const value = values.get(mutation) ?? null
+					setAttribute(target as Element, mutation, value)
+					if (serializedTarget) {
+						serialized.push({
+							type: "attributes",
+							target: serializedTarget,
+							name: mutation.attributeName ?? "",
+							namespace: mutation.attributeNamespace,
+							oldValue: mutation.oldValue,
+							value,
+						})
+					}
+					break
+				}
+				case "childList": {
+					const previousSibling =
+						mutation.previousSibling && cloneOf(mutation.previousSibling)
+					const index = previousSibling
+						? Array.prototype.indexOf.call(target.childNodes, previousSibling) +
+						  1
+						: 0
+					const removed = Array.from(mutation.removedNodes, cloneOf)
+					const added = Array.from(mutation.addedNodes, cloneOf)
+					if (serializedTarget) {
+						serialized.push({
+							type: "childList",
+							target: serializedTarget,
+							index,
+							removed: removed.map(serializeNode),
+							added: added.map(node => {
+								// Nodes moved in were removed earlier in the batch.
+								const from =
+									node.parentNode || detachedRoots.has(node)
+										? serializeTarget(node)
+										: undefined
+								return from ? { type: "moved", from } : serializeNode(node)
+							}),
+						})
+					}
+
+					removed.forEach((node, j) => {
+						target.removeChild(node)
+						if (serializedTarget) {
+							detachedRoots.set(node, [i, j])
+						}
+					})
+					const before = target.childNodes[index] ?? null
+					added.forEach(node => {
+						target.insertBefore(node, before)
+						detachedRoots.delete(node)
+					})
+					break
+				}
+			}
+		})
+
+		const intentTarget = intent && clones.get(intent.target)
+		this.session.batches.push({
+			timestamp: Date.now(),
+			intent: intent && {
+				inputType: intent.inputType,
+				data: intent.data,
+				target: (intentTarget && getNodePath(rootClone, intentTarget)) ?? [],
+			},
+			composition,
+			mutations: serialized,
+		})
+	}
+
+	toJSON(): RecordedSession | undefined {
+		return this.session
+	}
+}
+
+export interface ReplaySessionOptions {
+	/**
+	 * Wait for the MutableRoot to dispatch and revert a batch. Defaults to
+	 * waiting for the next task.
+	 */
+	waitForBatch?: () => Promise<void>
+	/** Called after each batch is replayed. */
+	onBatch?: (batch: SerializedBatch, index: number) => void
+}
+
+/**
+ * Re-apply a recorded session to `root`, one batch at a time, so the
+ * MutableRoot's handlers see the same sequence of batches. `root` must be
+ * rendered with the same content as when recording started.
+ */
+export async function replaySession(
+	session: RecordedSession,
+	root: Node,
+	options: ReplaySessionOptions = {}
+) {
+	if (!nodesEqual(serializeNode(root), session.initial)) {
+		throw new Error(
+			"Cannot replay the session: the root doesn't match the recorded initial DOM"
+		)
+	}
+
+	const doc = root.ownerDocument ?? (root as Document)
+	const view = doc.defaultView
+	const waitForBatch =
+		options.waitForBatch ?? (() => new Promise(resolve => setTimeout(resolve)))
+
+	for (const [index, batch] of session.batches.entries()) {
+		if (batch.composition && view) {
+			root.dispatchEvent(
+				new view.CompositionEvent("compositionstart", { bubbles: true })
+			)
+		}
+
+		if (batch.intent && view) {
+			const target = resolveTarget(root, { path: batch.intent.target }, [])
+			target.dispatchEvent(
+				new view.InputEvent("beforeinput", {
+					inputType: batch.intent.inputType,
+					data: batch.intent.data,
+					bubbles: true,
+					cancelable: true,
+				})
+			)
+		}
+
+		const removedBy: Node[][] = []
+		for (const mutation of batch.mutations) {
+			const target = resolveTarget(root, mutation.target, removedBy)
+			switch (mutation.type) {
+				case "characterData":
+					;(target as CharacterData).data = mutation.value
+					removedBy.push([])
+					break
+				case "attributes":
+					if (mutation.value === null) {
+						;(target as Element).removeAttributeNS(
+							mutation.namespace,
+							mutation.name
+						)
+					} else {
+						;(target as Element).setAttributeNS(
+							mutation.namespace,
+							mutation.name,
+							mutation.value
+						)
+					}
+					removedBy.push([])
+					break
+				case "childList": {
+					const removed = mutation.removed.map(() =>
+						target.removeChild(target.childNodes[mutation.index])
+					)
+					const added = mutation.added.map(node =>
+						node.type === "moved"
+							? resolveTarget(root, node.from, removedBy)
+							: deserializeNode(doc, node)
+					)
+					const before = target.childNodes[mutation.index] ?? null
+					added.forEach(node => target.insertBefore(node, before))
+					removedBy.push(removed)
+					break
+				}
+			}
+		}
+
+		if (batch.composition && view) {
+			root.dispatchEvent(
+				new view.CompositionEvent("compositionend", {
+					bubbles: true,
+					data: batch.composition.data,
+				})
+			)
+		}
+
+		await waitForBatch()
+		options.onBatch?.(batch, index)
+	}
+}
+
+export function serializeNode(node: Node): SerializedNode {
+	switch (node.nodeType) {
+		case node.TEXT_NODE:
+			return { type: "text", data: (node as Text).data }
+		case node.COMMENT_NODE:
+			return { type: "comment", data: (node as Comment).data }
+	}
+
+	const element = node as Element
+	return {
+		type: "element",
+		tagName: element.localName,
+		namespace: element.namespaceURI,
+		attributes: Array.from(element.attributes ?? [], attribute => ({
+			name: attribute.name,
+			namespace: attribute.namespaceURI,
+			value: attribute.value,
+		})),
+		children: Array.from(node.childNodes, serializeNode),
+	}
+}
+
+export function deserializeNode(doc: Document, node: SerializedNode): Node {
+	switch (node.type) {
+		case "text":
+			return doc.createTextNode(node.data)
+		case "comment":
+			return doc.createComment(node.data)
+	}
+
+	const element = doc.createElementNS(node.namespace, node.tagName)
+	for (const attribute of node.attributes) {
+		element.setAttributeNS(attribute.namespace, attribute.name, attribute.value)
+	}
+	for (const child of node.children) {
+		element.appendChild(deserializeNode(doc, child))
+	}
+	return element
+}
+
+function nodesEqual(a: SerializedNode, b: SerializedNode) {
+	return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/** Shallow-clone `node` and its descendants, mapping each original to its clone. */
+function cloneTree(node: Node, clones: Map<Node, Node>): Node {
+	const clone = node.cloneNode(false)
+	clones.set(node, clone)
+	node.childNodes.forEach(child => {
+		clone.appendChild(cloneTree(child, clones))
+	})
+	return clone
+}
+
+function setAttribute(
+	element: Element,
+	mutation: MutationRecord,
+	value: string | null
+) {
+	const name = mutation.attributeName ?? ""
+	if (value === null) {
+		element.removeAttributeNS(mutation.attributeNamespace, name)
+	} else if (mutation.attributeNamespace) {
+		element.setAttributeNS(mutation.attributeNamespace, name, value)
+	} else {
+		element.setAttribute(name, value)
+	}
+}
+
+function resolveTarget(
+	root: Node,
+	target: SerializedTarget,
+	removedBy: Node[][]
+): Node {
+	let node = target.detachedBy
+		? removedBy[target.detachedBy[0]]?.[target.detachedBy[1]]
+		: root
+	for (const index of target.path) {
+		node = node?.childNodes[index]
+	}
+	if (!node) {
+		throw new Error(
+			`Cannot replay the session: no node at ${JSON.stringify(target)}`
+		)
+	}
+	return node
+}
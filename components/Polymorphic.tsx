@@ -17,8 +17,10 @@ export interface PolymorphicOwnProps<
 type BasePolymorphicProps<E extends React.ElementType> =
 	PolymorphicOwnProps<E> & Omit<PropsOf<E>, keyof PolymorphicOwnProps>
 
+// Own props like `onChange` replace the element's props of the same name.
 export type PolymorphicProps<E extends React.ElementType, P> = P &
-	BasePolymorphicProps<E>
+	PolymorphicOwnProps<E> &
+	Omit<PropsOf<E>, keyof PolymorphicOwnProps | keyof P>
 
 export const defaultElement = "div"
 
@@ -0,0 +1,47 @@
+import React, { useState } from "react"
+import { act } from "react-dom/test-utils"
+import { Mutable } from "../Mutable"
+import { MutableModel } from "../MutableModel"
+import { MutableRoot } from "../MutableRoot"
+import { renderMutableRoot } from "../testing"
+
+describe("MutableModel", () => {
+	it("orders children like the DOM after a keyed reorder", async () => {
+		const models: MutableModel[] = []
+		let setItems: (items: string[]) => void
+		function List() {
+			const [items, set] = useState(["a", "b", "c"])
+			setItems = set
+			return (
+				<MutableRoot onChange={model => models.push(model)}>
+					{items.map(item => (
+						<Mutable
+							key={item}
+							as="p"
+							id={item}
+							parse={node => node.textContent}
+						>
+							{item}
+						</Mutable>
+					))}
+				</MutableRoot>
+			)
+		}
+
+		const harness = renderMutableRoot(<List />)
+		await harness.flushMutations()
+		act(() => setItems(["c", "b", "a"]))
+
+		harness.select(harness.root.querySelector("#b").firstChild, 1)
+		harness.typeText("!")
+		await harness.flushMutations()
+
+		expect(models).toHaveLength(1)
+		expect(models[0].children.map(child => child.value)).toEqual([
+			"c",
+			"b!",
+			"a",
+		])
+		harness.unmount()
+	})
+})
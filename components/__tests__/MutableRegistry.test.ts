@@ -0,0 +1,123 @@
+import { MutableRegistry } from "../MutableRegistry"
+
+function element(id: string, ...children: Node[]) {
+	const node = document.createElement("div")
+	node.id = id
+	children.forEach(child => node.appendChild(child))
+	return node
+}
+
+function ids(listeners: Array<[Node, unknown]>) {
+	return listeners.map(([node]) => (node as Element).id)
+}
+
+describe("MutableRegistry", () => {
+	//   a
+	//  / \
+	// b   e
+	// |   |
+	// c   f
+	// |
+	// d
+	const d = element("d")
+	const c = element("c", d)
+	const b = element("b", c)
+	const f = element("f")
+	const e = element("e", f)
+	const a = element("a", b, e)
+
+	function registerAll(nodes: Node[]) {
+		const registry = new MutableRegistry()
+		nodes.forEach(node => registry.register({}, node, {}))
+		registry.snapshot()
+		return registry
+	}
+
+	it("orders outermost-first listeners in document order", () => {
+		const registry = registerAll([f, c, a, e, d, b])
+		expect(ids(registry.outermostFirstListeners)).toEqual([
+			"a",
+			"b",
+			"c",
+			"d",
+			"e",
+			"f",
+		])
+	})
+
+	it("orders depth-first listeners with every node before its ancestors", () => {
+		const registry = registerAll([a, b, c, d, e, f])
+		expect(ids(registry.depthFirstListeners)).toEqual([
+			"d",
+			"c",
+			"b",
+			"f",
+			"e",
+			"a",
+		])
+	})
+
+	it("skips unregistered nodes in paths", () => {
+		const registry = registerAll([a, c, f])
+		expect(ids(registry.outermostFirstListeners)).toEqual(["a", "c", "f"])
+		expect(registry.findAncestorPath(d)).toEqual([c, a])
+		expect(registry.getParent(f)).toBe(a)
+	})
+
+	it("keeps the hierarchy the user saw when the DOM changes", () => {
+		const registry = registerAll([a, b, c, d, e, f])
+		// Move d under f, like a browser edit would.
+		f.appendChild(d)
+		try {
+			expect(registry.getPath(d)).toEqual([d, c, b, a])
+			expect(registry.getBubblePath([d, f, e, a])).toEqual([d, c, b, a])
+		} finally {
+			c.appendChild(d)
+		}
+	})
+
+	it("moves children up when their parent unregisters", () => {
+		const registry = new MutableRegistry()
+		const id = {}
+		registry.register({}, a, {})
+		registry.register(id, b, {})
+		registry.register({}, d, {})
+		registry.snapshot()
+		expect(registry.getParent(d)).toBe(b)
+
+		registry.unregister(id)
+		expect(registry.getParent(d)).toBe(a)
+		expect(ids(registry.depthFirstListeners)).toEqual(["d", "a"])
+	})
+
+	it("re-sorts siblings that moved when it snapshots", () => {
+		const x = element("x")
+		const y = element("y")
+		const z = element("z")
+		const list = element("list", x, y, z)
+		const registry = registerAll([list, x, y, z])
+
+		// Reverse the list, like React does for a keyed reorder.
+		list.insertBefore(z, x)
+		list.insertBefore(y, x)
+		try {
+			registry.snapshot()
+			expect(ids(registry.outermostFirstListeners)).toEqual([
+				"list",
+				"z",
+				"y",
+				"x",
+			])
+		} finally {
+			list.append(x, y, z)
+		}
+	})
+
+	it("orders the listeners on bubble paths like the whole tree", () => {
+		const registry = registerAll([a, b, c, d, e, f])
+		const paths = [registry.getPath(f), registry.getPath(c)]
+		const listeners = registry.getListenersOnPaths(paths)
+		expect(ids(listeners.outermostFirst)).toEqual(["a", "b", "c", "e", "f"])
+		expect(ids(listeners.depthFirst)).toEqual(["c", "b", "f", "e", "a"])
+	})
+})
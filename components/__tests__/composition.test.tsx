@@ -0,0 +1,67 @@
+import React from "react"
+import { Mutable } from "../Mutable"
+import { MutableRoot } from "../MutableRoot"
+import { MutableRootHarness, MutationLog, renderMutableRoot } from "../testing"
+
+describe("IME composition", () => {
+	let harness: MutableRootHarness | undefined
+
+	afterEach(() => {
+		harness?.unmount()
+		harness = undefined
+	})
+
+	it("dispatches the whole composition as one batch once it ends", async () => {
+		const log = new MutationLog()
+		harness = renderMutableRoot(
+			<MutableRoot onMutations={log.handler("root")}>
+				<Mutable as="p" onMutations={log.handler("p")}>
+					hello
+				</Mutable>
+			</MutableRoot>
+		)
+		const p = harness.root.querySelector("p")
+		const before = harness.root.innerHTML
+
+		harness.select(p.firstChild, 5)
+		harness.startComposition()
+		harness.compose("に")
+		await harness.flushMutations()
+		harness.compose("ほ")
+		await harness.flushMutations()
+
+		// Reverting in the middle would cancel the composition.
+		expect(log.entries).toHaveLength(0)
+		expect(p.textContent).toBe("helloにほ")
+
+		harness.endComposition()
+		await harness.flushMutations()
+
+		expect(log.entries.map(entry => entry.name)).toEqual(["p", "root"])
+		expect(log.entries[0].event.composition).toEqual({ data: "にほ" })
+		expect(log.entries[0].mutations.length).toBeGreaterThan(0)
+		harness.assertReverted(before)
+	})
+
+	it("dispatches edits after the composition normally", async () => {
+		const log = new MutationLog()
+		harness = renderMutableRoot(
+			<MutableRoot onMutations={log.handler("root")}>hello</MutableRoot>
+		)
+		const text = harness.root.firstChild
+
+		harness.select(text, 0)
+		harness.startComposition()
+		harness.compose("a")
+		harness.endComposition()
+		await harness.flushMutations()
+		harness.select(text, 0)
+		harness.typeText("b")
+		await harness.flushMutations()
+
+		expect(log.entries).toHaveLength(2)
+		expect(log.entries[1].event.composition).toBeUndefined()
+		expect(log.entries[1].intent?.inputType).toBe("insertText")
+		harness.assertReverted()
+	})
+})
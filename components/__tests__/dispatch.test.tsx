@@ -0,0 +1,261 @@
+import React, { useState } from "react"
+import { Mutable } from "../Mutable"
+import { MutableRoot } from "../MutableRoot"
+import { MutableRootHarness, MutationLog, renderMutableRoot } from "../testing"
+
+function text(harness: MutableRootHarness, selector: string) {
+	return harness.root.querySelector(selector).firstChild as Text
+}
+
+describe("dispatching mutations", () => {
+	let harness: MutableRootHarness | undefined
+
+	afterEach(() => {
+		harness?.unmount()
+		harness = undefined
+	})
+
+	it("bubbles from the closest Mutable up to the root, and reverts", async () => {
+		const log = new MutationLog()
+		harness = renderMutableRoot(
+			<MutableRoot onMutations={log.handler("root")}>
+				<Mutable as="div" id="outer" onMutations={log.handler("outer")}>
+					<Mutable as="p" id="inner" onMutations={log.handler("inner")}>
+						hello
+					</Mutable>
+				</Mutable>
+			</MutableRoot>
+		)
+
+		harness.select(text(harness, "#inner"), 5)
+		harness.typeText("!")
+		await harness.flushMutations()
+
+		harness.assertReverted()
+		expect(log.entries).toHaveLength(3)
+		expect(log.receiversOf(log.entries[0].mutations[0])).toEqual([
+			"inner",
+			"outer",
+			"root",
+		])
+		expect(log.entries[0].intent?.inputType).toBe("insertText")
+	})
+
+	it("calls capture handlers outermost first, before bubble handlers", async () => {
+		const log = new MutationLog()
+		harness = renderMutableRoot(
+			<MutableRoot
+				onMutationsCapture={log.handler("root capture")}
+				onMutations={log.handler("root")}
+			>
+				<Mutable
+					as="p"
+					onMutationsCapture={log.handler("p capture")}
+					onMutations={log.handler("p")}
+				>
+					hello
+				</Mutable>
+			</MutableRoot>
+		)
+
+		harness.select(text(harness, "p"), 0)
+		harness.typeText("x")
+		await harness.flushMutations()
+
+		expect(log.entries.map(entry => entry.name)).toEqual([
+			"root capture",
+			"p capture",
+			"p",
+			"root",
+		])
+	})
+
+	it("renders state set directly by a handler after reverting", async () => {
+		let calls = 0
+		function Editor() {
+			const [value, setValue] = useState("hello")
+			return (
+				<MutableRoot
+					onMutations={event => {
+						calls++
+						setValue(event.currentTarget.textContent)
+					}}
+				>
+					<p>
+						{value}
+						<br />
+					</p>
+				</MutableRoot>
+			)
+		}
+		harness = renderMutableRoot(<Editor />)
+
+		harness.select(text(harness, "p"), 5)
+		harness.typeText("!")
+		await harness.flushMutations()
+		await harness.flushMutations()
+
+		expect(harness.root.textContent).toBe("hello!")
+		expect(calls).toBe(1)
+	})
+
+	describe("stopPropagation", () => {
+		it("stops mutations in the capture phase", async () => {
+			const log = new MutationLog()
+			harness = renderMutableRoot(
+				<MutableRoot
+					onMutationsCapture={log.handler("root capture", event =>
+						event.stopPropagation()
+					)}
+					onMutations={log.handler("root")}
+				>
+					<Mutable
+						as="p"
+						onMutationsCapture={log.handler("p capture")}
+						onMutations={log.handler("p")}
+					>
+						hello
+					</Mutable>
+				</MutableRoot>
+			)
+
+			harness.select(text(harness, "p"), 0)
+			harness.typeText("x")
+			await harness.flushMutations()
+
+			harness.assertReverted()
+			expect(log.entries.map(entry => entry.name)).toEqual(["root capture"])
+		})
+
+		it("stops mutations in the bubble phase", async () => {
+			const log = new MutationLog()
+			harness = renderMutableRoot(
+				<MutableRoot onMutations={log.handler("root")}>
+					<Mutable
+						as="div"
+						onMutations={log.handler("outer", event => event.stopPropagation())}
+					>
+						<Mutable as="p" onMutations={log.handler("inner")}>
+							hello
+						</Mutable>
+					</Mutable>
+				</MutableRoot>
+			)
+
+			harness.select(text(harness, "p"), 0)
+			harness.typeText("x")
+			await harness.flushMutations()
+
+			harness.assertReverted()
+			expect(log.entries.map(entry => entry.name)).toEqual(["inner", "outer"])
+		})
+
+		it("only stops the handler's own mutations", async () => {
+			const log = new MutationLog()
+			harness = renderMutableRoot(
+				<MutableRoot onMutations={log.handler("root")}>
+					<Mutable
+						as="p"
+						id="a"
+						onMutations={log.handler("a", event => event.stopPropagation())}
+					>
+						a
+					</Mutable>
+					<Mutable as="p" id="b" onMutations={log.handler("b")}>
+						b
+					</Mutable>
+				</MutableRoot>
+			)
+
+			const a = text(harness, "#a")
+			const b = text(harness, "#b")
+			a.insertData(0, "x")
+			b.insertData(0, "y")
+			await harness.flushMutations()
+
+			expect(log.entries.map(entry => entry.name)).toEqual(["a", "b", "root"])
+			expect(log.receivedBy("root").map(record => record.target)).toEqual([b])
+		})
+
+		it("stops some mutations and lets the rest bubble", async () => {
+			const log = new MutationLog()
+			harness = renderMutableRoot(
+				<MutableRoot onMutations={log.handler("root")}>
+					<Mutable
+						as="p"
+						onMutations={log.handler("p", event =>
+							event.stopPropagation(
+								event.mutations.filter(
+									record => record.type === "characterData"
+								)
+							)
+						)}
+					>
+						hello
+					</Mutable>
+				</MutableRoot>
+			)
+
+			const p = harness.root.querySelector("p")
+			harness.setAttribute(p, "class", "x")
+			harness.select(p.firstChild, 0)
+			harness.typeText("x")
+			await harness.flushMutations()
+
+			harness.assertReverted()
+			expect(log.receivedBy("root").map(record => record.type)).toEqual([
+				"attributes",
+			])
+		})
+	})
+
+	describe("a node moved into another Mutable, then edited", () => {
+		function render(dispatchMode: "batch" | "replay", log: MutationLog) {
+			return renderMutableRoot(
+				<MutableRoot dispatchMode={dispatchMode}>
+					<Mutable as="div" id="x" onMutations={log.handler("x")}>
+						<Mutable as="p" id="d" onMutations={log.handler("d")}>
+							foo
+						</Mutable>
+					</Mutable>
+					<Mutable as="div" id="c" onMutations={log.handler("c")} />
+				</MutableRoot>
+			)
+		}
+
+		async function moveThenEdit(harness: MutableRootHarness) {
+			// Let the registry pick up the Mutables, which register in effects.
+			await harness.flushMutations()
+			const d = harness.root.querySelector("#d")
+			harness.moveNode(d, harness.root.querySelector("#c"))
+			harness.select(d.firstChild, 3)
+			harness.typeText("!")
+		}
+
+		it("bubbles the edit through the tree the user saw, in batch mode", async () => {
+			const log = new MutationLog()
+			harness = render("batch", log)
+			await moveThenEdit(harness)
+			await harness.flushMutations()
+
+			harness.assertReverted()
+			const edit = log
+				.receivedBy("d")
+				.find(record => record.type === "characterData")
+			expect(log.receiversOf(edit)).toEqual(["d", "x"])
+		})
+
+		it("bubbles the edit from the node's new place, in replay mode", async () => {
+			const log = new MutationLog()
+			harness = render("replay", log)
+			await moveThenEdit(harness)
+			await harness.flushMutations()
+
+			harness.assertReverted()
+			const edit = log
+				.receivedBy("d")
+				.find(record => record.type === "characterData")
+			expect(log.receiversOf(edit)).toEqual(["d", "c"])
+		})
+	})
+})
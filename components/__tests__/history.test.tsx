@@ -0,0 +1,45 @@
+import React from "react"
+import { act } from "react-dom/test-utils"
+import { MutableRoot } from "../MutableRoot"
+import { MutationHistory } from "../MutationHistory"
+import { DOMLock } from "../useRevertMutations"
+import { renderMutableRoot } from "../testing"
+import { useMutations } from "../useMutations"
+
+describe("MutationHistory", () => {
+	it("records pending edits before a mutate call", async () => {
+		const history = new MutationHistory({ onUndo() {}, onRedo() {} })
+		let mutate: DOMLock["mutate"] | undefined
+		function Mutator() {
+			mutate = useMutations().mutate
+			return null
+		}
+
+		const harness = renderMutableRoot(
+			<MutableRoot
+				history={history}
+				onMutations={() => history.annotate({ handled: true })}
+			>
+				hello
+				<Mutator />
+			</MutableRoot>
+		)
+		await harness.flushMutations()
+
+		harness.select(harness.root.firstChild, 5)
+		harness.typeText("!")
+		act(() => {
+			mutate(() => {})
+		})
+
+		// mutate flushes the edit first.
+		expect(harness.root.textContent).toBe("hello")
+		expect(history.undoStack.map(transaction => transaction.kind)).toEqual([
+			"input",
+			"mutate",
+		])
+		expect(history.undoStack[0].metadata).toEqual({ handled: true })
+		expect(history.undoStack[1].metadata).toEqual({})
+		harness.unmount()
+	})
+})
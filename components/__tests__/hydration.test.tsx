@@ -0,0 +1,79 @@
+import React from "react"
+import ReactDOM from "react-dom"
+import { renderToString } from "react-dom/server"
+import { Mutable } from "../Mutable"
+import { MutableRoot } from "../MutableRoot"
+import { hydrateMutableRoot, MutationLog } from "../testing"
+
+describe("hydration", () => {
+	let consoleError: jest.SpyInstance
+
+	beforeEach(() => {
+		// React warns about the mismatched server HTML, and about layout effects
+		// when rendering it outside of a server.
+		consoleError = jest.spyOn(console, "error").mockImplementation(() => {})
+	})
+
+	afterEach(() => {
+		consoleError.mockRestore()
+	})
+
+	it("locks after hydration, without dispatching hydration changes", async () => {
+		const log = new MutationLog()
+		const harness = hydrateMutableRoot(
+			<MutableRoot onMutations={log.handler("root")}>
+				<Mutable as="p" title="client" onMutations={log.handler("p")}>
+					client
+				</Mutable>
+			</MutableRoot>,
+			renderToString(
+				<MutableRoot>
+					<Mutable as="p" title="server">
+						server
+					</Mutable>
+				</MutableRoot>
+			)
+		)
+		await harness.flushMutations()
+
+		const p = harness.root.querySelector("p")
+		expect(harness.root.getAttribute("contenteditable")).toBe("true")
+		// React fixed the server text while hydrating, with the lock off.
+		expect(p.textContent).toBe("client")
+		expect(log.entries).toHaveLength(0)
+
+		harness.select(p.firstChild, 6)
+		harness.typeText("!")
+		await harness.flushMutations()
+
+		harness.assertReverted()
+		expect(log.entries.map(entry => entry.name)).toEqual(["p", "root"])
+		harness.unmount()
+	})
+
+	it("hydrates each root separately", () => {
+		const element = <MutableRoot>hello</MutableRoot>
+		const html = renderToString(element)
+		const first = hydrateMutableRoot(element, html)
+		const second = hydrateMutableRoot(element, html)
+
+		expect(first.root.getAttribute("contenteditable")).toBe("true")
+		expect(second.root.getAttribute("contenteditable")).toBe("true")
+		// Both matched the server's markup while hydrating.
+		const mismatches = consoleError.mock.calls.filter(([message]) =>
+			String(message).includes("did not match")
+		)
+		expect(mismatches).toEqual([])
+		first.unmount()
+		second.unmount()
+	})
+
+	it("renders client-only mounts editable right away", () => {
+		const container = document.createElement("div")
+		ReactDOM.render(<MutableRoot>hello</MutableRoot>, container)
+		expect(container.firstElementChild.getAttribute("contenteditable")).toBe(
+			"true"
+		)
+		ReactDOM.unmountComponentAtNode(container)
+	})
+})
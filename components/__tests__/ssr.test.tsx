@@ -0,0 +1,29 @@
+/**
+ * @jest-environment node
+ */
+import React from "react"
+import { renderToString } from "react-dom/server"
+import { Mutable } from "../Mutable"
+import { MutableIsland } from "../MutableIsland"
+import { MutableRoot } from "../MutableRoot"
+
+describe("server rendering", () => {
+	it("renders read-only, without warnings", () => {
+		const consoleError = jest.spyOn(console, "error")
+		try {
+			const html = renderToString(
+				<MutableRoot>
+					<Mutable as="p">hello</Mutable>
+					<MutableIsland>
+						<input />
+					</MutableIsland>
+				</MutableRoot>
+			)
+
+			expect(html).not.toContain('contenteditable="true"')
+			expect(consoleError).not.toHaveBeenCalled()
+		} finally {
+			consoleError.mockRestore()
+		}
+	})
+})
@@ -0,0 +1,226 @@
+import { getSelection, getWindow } from "./dom"
+import { MutableRegistry } from "./MutableRegistry"
+
+/**
+ * A paste, intercepted by MutableRoot before the browser inserts anything.
+ * Bubbles from the Mutable closest to the selection up to the root.
+ */
+export interface PasteEvent {
+	/**
+	 * The pasted HTML after sanitizing, or the plain text if there was no
+	 * HTML. Shared by every handler: clone it before inserting it somewhere.
+	 */
+	readonly fragment: DocumentFragment
+	readonly text: string
+	/** The selection when the user pasted, which the paste replaces. */
+	readonly range: Range | undefined
+	/** The Mutable node whose handler is receiving this event. */
+	readonly currentTarget: Node
+	readonly nativeEvent: ClipboardEvent
+	/** Don't call the handlers of Mutables further up. */
+	stopPropagation(): void
+}
+
+export interface OnPaste {
+	(event: PasteEvent): void
+}
+
+export interface ClipboardContent {
+	/** Defaults to the selected text. */
+	readonly text?: string
+	readonly html?: string
+}
+
+/**
+ * Serialize the part of a Mutable that's inside `range`, for copy and cut.
+ * Return undefined to leave it to a Mutable further up, or to the browser.
+ *
+ * Returning content for a cut stops the browser's cut. The `onMutations`
+ * handlers then receive a "deleteByCut" intent, with `range` as its target
+ * range, and must delete the content themselves: if none does, the cut
+ * only copies.
+ */
+export interface ClipboardSerializer {
+	(node: Node, range: Range): ClipboardContent | undefined
+}
+
+/** Turn untrusted pasted HTML into a fragment that's safe to insert. */
+export interface HtmlSanitizer {
+	(html: string, doc: Document): DocumentFragment
+}
+
+const ALLOWED_TAGS = new Set([
+	"a",
+	"b",
+	"blockquote",
+	"br",
+	"code",
+	"em",
+	"h1",
+	"h2",
+	"h3",
+	"h4",
+	"h5",
+	"h6",
+	"i",
+	"li",
+	"ol",
+	"p",
+	"pre",
+	"s",
+	"strong",
+	"sub",
+	"sup",
+	"u",
+	"ul",
+])
+
+/** Removed along with their content. Other tags are unwrapped. */
+const DROPPED_TAGS = new Set([
+	"embed",
+	"head",
+	"iframe",
+	"link",
+	"math",
+	"meta",
+	"noscript",
+	"object",
+	"script",
+	"style",
+	"svg",
+	"template",
+	"title",
+])
+
+const SAFE_HREF = /^\s*(https?:|mailto:)/i
+
+/**
+ * Keep a small set of formatting tags, without attributes except links'
+ * `href`, and unwrap everything else.
+ */
+export const sanitizeHtml: HtmlSanitizer = (html, doc) => {
+	// Parsing into a separate document doesn't run scripts or load images.
+	const Parser = getWindow(doc)?.DOMParser ?? DOMParser
+	const parsed = new Parser().parseFromString(html, "text/html")
+	const fragment = doc.createDocumentFragment()
+	appendSanitized(parsed.body, fragment, doc)
+	return fragment
+}
+
+function appendSanitized(source: Node, target: Node, doc: Document) {
+	source.childNodes.forEach(child => {
+		if (child.nodeType === child.TEXT_NODE) {
+			target.appendChild(doc.createTextNode((child as Text).data))
+			return
+		}
+		if (child.nodeType !== child.ELEMENT_NODE) {
+			return
+		}
+
+		const tag = (child as Element).localName
+		if (DROPPED_TAGS.has(tag)) {
+			return
+		}
+		if (!ALLOWED_TAGS.has(tag)) {
+			appendSanitized(child, target, doc)
+			return
+		}
+
+		const element = doc.createElement(tag)
+		const href = (child as Element).getAttribute("href")
+		if (tag === "a" && href && SAFE_HREF.test(href)) {
+			element.setAttribute("href", href)
+		}
+		appendSanitized(child, element, doc)
+		target.appendChild(element)
+	})
+}
+
+/**
+ * Bubble a paste through the handlers of the Mutables around the selection.
+ * @param invokeHandler Calls a handler, isolating its errors.
+ * @returns false if there was nothing to paste, or no handler to receive it.
+ */
+export function dispatchPaste(
+	registry: MutableRegistry,
+	root: Node,
+	nativeEvent: ClipboardEvent,
+	sanitize: HtmlSanitizer,
+	invokeHandler: (handler: OnPaste, event: PasteEvent) => void
+): boolean {
+	const data = nativeEvent.clipboardData
+	const doc = root.ownerDocument
+	if (!data || !doc) {
+		return false
+	}
+
+	const range = getSelectedRange(root)
+	const receivers = registry
+		.findAncestorPath(range?.startContainer ?? root)
+		.flatMap(node => {
+			const onPaste = registry.nodeToHandlers.get(node)?.onPaste
+			return onPaste ? [[node, onPaste] as const] : []
+		})
+	if (receivers.length === 0) {
+		return false
+	}
+
+	const text = data.getData("text/plain")
+	const html = data.getData("text/html")
+	let fragment: DocumentFragment
+	if (html) {
+		fragment = sanitize(html, doc)
+	} else {
+		fragment = doc.createDocumentFragment()
+		fragment.appendChild(doc.createTextNode(text))
+	}
+
+	let stopped = false
+	for (const [node, onPaste] of receivers) {
+		invokeHandler(onPaste, {
+			fragment,
+			text,
+			range,
+			currentTarget: node,
+			nativeEvent,
+			stopPropagation() {
+				stopped = true
+			},
+		})
+		if (stopped) {
+			break
+		}
+	}
+	return true
+}
+
+/**
+ * Serialize the selection with the `serialize` function of the closest
+ * Mutable around it that has one.
+ * @returns The content and the selected range, or undefined to leave the
+ *   copy to the browser.
+ */
+export function serializeSelection(
+	registry: MutableRegistry,
+	root: Node
+): [ClipboardContent, Range] | undefined {
+	const range = getSelectedRange(root)
+	if (!range || range.collapsed) {
+		return undefined
+	}
+
+	for (const node of registry.findAncestorPath(range.commonAncestorContainer)) {
+		const content = registry.nodeToHandlers.get(node)?.serialize?.(node, range)
+		if (content) {
+			return [content, range]
+		}
+	}
+	return undefined
+}
+
+function getSelectedRange(root: Node): Range | undefined {
+	const selection = getSelection(root)
+	return selection && selection.rangeCount > 0
+		? selection.getRangeAt(0).cloneRange()
+		: undefined
+}
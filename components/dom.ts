@@ -0,0 +1,42 @@
+/**
+ * Helpers for nodes that may live inside a shadow root, or in another
+ * document like an iframe's. The globals `document`, `Node` and `NodeFilter`
+ * belong to the main window, so avoid them and `instanceof` checks.
+ */
+
+/** NodeFilter.SHOW_TEXT, which is the same in every window. */
+export const SHOW_TEXT = 0x4
+
+interface SelectionRoot extends Node {
+	/** Only in Chromium, whose document Selection can't see into shadow trees. */
+	getSelection?(): Selection | null
+}
+
+/** @returns The document `node` belongs to, or `node` if it's a document. */
+export function getDocument(node: Node): Document {
+	return node.ownerDocument ?? (node as Document)
+}
+
+/** @returns The window of `node`'s document, if it has one. */
+export function getWindow(node: Node): (Window & typeof globalThis) | null {
+	return getDocument(node).defaultView as (Window & typeof globalThis) | null
+}
+
+/**
+ * @returns The Selection that can see `node`, which is its shadow root's in
+ *   Chromium, and its document's otherwise.
+ */
+export function getSelection(node: Node): Selection | null {
+	const root: SelectionRoot = node.getRootNode()
+	if (
+		root.nodeType === root.DOCUMENT_FRAGMENT_NODE &&
+		typeof root.getSelection === "function"
+	) {
+		return root.getSelection()
+	}
+	return getDocument(node).getSelection()
+}
+
+export function isElement(node: Node): node is Element {
+	return node.nodeType === node.ELEMENT_NODE
+}
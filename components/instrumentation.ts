@@ -0,0 +1,147 @@
+/**
+ * "locked": reverting mutations.
+ * "unlocked": rendering, so mutations are allowed.
+ * "mutating": inside a DOMLock.mutate call.
+ */
+export type LockState = "locked" | "unlocked" | "mutating"
+
+export interface BatchTiming {
+	readonly mutations: readonly MutationRecord[]
+	/** Whether the batch holds a whole IME composition. */
+	readonly composition: boolean
+	/** Milliseconds spent in handlers, including parsing. */
+	readonly dispatchDuration: number
+	/** Milliseconds spent rolling back the batch. */
+	readonly revertDuration: number
+	/** Milliseconds spent rendering updates passed to `commit`. */
+	readonly commitDuration: number
+}
+
+export interface DispatchInfo {
+	readonly phase: "capture" | "bubble"
+	/** Records the handler stopped from propagating further. */
+	readonly stopped: readonly MutationRecord[]
+	/** Milliseconds spent in the handler. */
+	readonly duration: number
+}
+
+/**
+ * Callbacks for measuring and debugging the lock and the dispatcher. They run
+ * synchronously while the lock is busy, so keep them cheap.
+ */
+export interface MutationInstrumentation {
+	/** After a batch is dispatched and reverted. */
+	onBatch?(timing: BatchTiming): void
+	/** After a Mutable's handler receives some records. */
+	onDispatch?(
+		node: Node,
+		mutations: readonly MutationRecord[],
+		info: DispatchInfo
+	): void
+	/**
+	 * After dispatching mutations inside a Mutable with the "handler-decides"
+	 * policy that no handler accepted or rejected. They're reverted.
+	 */
+	onUndecided?(node: Node, mutations: readonly MutationRecord[]): void
+	/** After rolling back a record. Allowed records aren't rolled back. */
+	onRevert?(mutation: MutationRecord, ok: boolean, error?: unknown): void
+	/**
+	 * @param duration Milliseconds spent in the previous state.
+	 */
+	onLockStateChange?(
+		state: LockState,
+		previous: LockState,
+		duration: number
+	): void
+}
+
+const UNDECIDED_MESSAGE =
+	'Reverted mutations that no handler accepted or rejected, inside a Mutable with policy="handler-decides"'
+
+/**
+ * Silent in production. In development, reports records that couldn't be
+ * rolled back, and records that no handler decided on.
+ */
+export const defaultInstrumentation: MutationInstrumentation =
+	process.env.NODE_ENV === "production"
+		? {}
+		: {
+				onUndecided(node, mutations) {
+					// eslint-disable-next-line no-console
+					console.warn(UNDECIDED_MESSAGE, node, mutations)
+				},
+				onRevert(mutation, ok, error) {
+					if (!ok) {
+						// eslint-disable-next-line no-console
+						console.error("Could not roll back mutation", mutation, error)
+					}
+				},
+		  }
+
+export interface Logger {
+	debug(...args: unknown[]): void
+	warn(...args: unknown[]): void
+	error(...args: unknown[]): void
+}
+
+/**
+ * Log everything the lock and the dispatcher do.
+ * @param logger Defaults to the console.
+ */
+export function createLoggingInstrumentation(
+	logger: Logger = console
+): MutationInstrumentation {
+	return {
+		onBatch(timing) {
+			logger.debug(
+				`Batch of ${timing.mutations.length} mutations: dispatched in ${timing.dispatchDuration}ms, reverted in ${timing.revertDuration}ms, committed in ${timing.commitDuration}ms`,
+				timing
+			)
+		},
+		onDispatch(node, mutations, info) {
+			logger.debug(
+				`Dispatched ${mutations.length} mutations (${info.phase}) in ${info.duration}ms`,
+				node,
+				info
+			)
+		},
+		onUndecided(node, mutations) {
+			logger.warn(UNDECIDED_MESSAGE, node, mutations)
+		},
+		onRevert(mutation, ok, error) {
+			if (ok) {
+				logger.debug("Reverted mutation of locked DOM tree", mutation)
+			} else {
+				logger.error("Could not roll back mutation", mutation, error)
+			}
+		},
+		onLockStateChange(state, previous, duration) {
+			logger.debug(`Lock ${previous} -> ${state} after ${duration}ms`)
+		},
+	}
+}
+
+/**
+ * @returns Instrumentation that calls each of `instrumentations` in order.
+ */
+export function combineInstrumentation(
+	...instrumentations: Array<MutationInstrumentation | undefined>
+): MutationInstrumentation {
+	const all = instrumentations.filter(Boolean) as MutationInstrumentation[]
+	return {
+		onBatch: timing => all.forEach(i => i.onBatch?.(timing)),
+		onDispatch: (node, mutations, info) =>
+			all.forEach(i => i.onDispatch?.(node, mutations, info)),
+		onUndecided: (node, mutations) =>
+			all.forEach(i => i.onUndecided?.(node, mutations)),
+		onRevert: (mutation, ok, error) =>
+			all.forEach(i => i.onRevert?.(mutation, ok, error)),
+		onLockStateChange: (state, previous, duration) =>
+			all.forEach(i => i.onLockStateChange?.(state, previous, duration)),
+	}
+}
+
+/** A timestamp in milliseconds, as precise as the environment allows. */
+export function now(): number {
+	return typeof performance !== "undefined" ? performance.now() : Date.now()
+}
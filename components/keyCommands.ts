@@ -0,0 +1,159 @@
+import { RefCallback, useMemo } from "react"
+import { getSelection } from "./dom"
+import { MutableRegistry } from "./MutableRegistry"
+import { useMutations } from "./useMutations"
+
+export const isMac =
+	typeof navigator !== "undefined" && /Mac|iPhone|iPad/.test(navigator.platform)
+
+export interface KeyCommandEvent {
+	readonly nativeEvent: KeyboardEvent
+	/** The node whose commands matched. */
+	readonly currentTarget: Node
+	/** Whether the caret is collapsed at the start of `currentTarget`'s text. */
+	isAtStart(): boolean
+	/** Whether the caret is collapsed at the end of `currentTarget`'s text. */
+	isAtEnd(): boolean
+}
+
+/**
+ * Return true to handle the key: the browser won't edit the DOM, and the
+ * event stops. Otherwise, the next node up gets a chance.
+ */
+export interface KeyCommandHandler {
+	(event: KeyCommandEvent): boolean | void
+}
+
+/**
+ * Maps key chords to handlers. A chord is a `KeyboardEvent.key`, after any
+ * of the modifiers "Mod", "Ctrl", "Meta", "Alt" and "Shift", joined by "+".
+ * "Mod" is Meta on Apple platforms and Ctrl elsewhere.
+ *
+ * { Enter: splitItem, Tab: indent, "Shift+Tab": outdent, "Mod+b": bold }
+ */
+export type KeyCommands = Record<string, KeyCommandHandler>
+
+interface Chord {
+	key: string
+	ctrl: boolean
+	meta: boolean
+	alt: boolean
+	shift: boolean
+}
+
+const chordCache = new Map<string, Chord>()
+
+function parseChord(chord: string): Chord {
+	let parsed = chordCache.get(chord)
+	if (!parsed) {
+		const parts = chord.split("+")
+		// "Mod++" binds the plus key.
+		const key = parts.pop() || (parts.pop(), "+")
+		const modifiers = new Set(parts.map(part => part.toLowerCase()))
+		parsed = {
+			key: key.toLowerCase(),
+			ctrl: modifiers.has("ctrl") || (!isMac && modifiers.has("mod")),
+			meta: modifiers.has("meta") || (isMac && modifiers.has("mod")),
+			alt: modifiers.has("alt"),
+			shift: modifiers.has("shift"),
+		}
+		chordCache.set(chord, parsed)
+	}
+	return parsed
+}
+
+/** @returns true if `event` is exactly `chord`. */
+export function matchesChord(chord: string, event: KeyboardEvent): boolean {
+	const parsed = parseChord(chord)
+	return (
+		parsed.key === event.key.toLowerCase() &&
+		parsed.ctrl === event.ctrlKey &&
+		parsed.meta === event.metaKey &&
+		parsed.alt === event.altKey &&
+		parsed.shift === event.shiftKey
+	)
+}
+
+/**
+ * Bind key commands to a node inside a MutableRoot that isn't a Mutable. For
+ * a Mutable, use its `keyCommands` prop.
+ * @param commands Memoize them to avoid re-registering on every render.
+ * @returns A ref for the node.
+ */
+export function useKeyCommands(commands: KeyCommands): RefCallback<Node> {
+	const handlers = useMemo(() => ({ keyCommands: commands }), [commands])
+	return useMutations(handlers).ref
+}
+
+/**
+ * Offer `event` to the key commands of the registered nodes around the
+ * selection's focus, closest first.
+ * @param invokeHandler Calls a handler, isolating its errors. A handler that
+ *   throws didn't handle the key.
+ * @returns true if a handler handled it.
+ */
+export function dispatchKeyCommands(
+	registry: MutableRegistry,
+	event: KeyboardEvent,
+	invokeHandler: (
+		handler: KeyCommandHandler,
+		event: KeyCommandEvent
+	) => boolean | void
+): boolean {
+	if (event.isComposing) {
+		return false
+	}
+
+	const target = event.target as Node
+	const selection = getSelection(target)
+	const focus = selection?.focusNode ?? target
+	for (const node of registry.findAncestorPath(focus)) {
+		const commands = registry.nodeToHandlers.get(node)?.keyCommands
+		if (!commands) {
+			continue
+		}
+
+		for (const chord of Object.keys(commands)) {
+			if (!matchesChord(chord, event)) {
+				continue
+			}
+
+			const handled = invokeHandler(commands[chord], {
+				nativeEvent: event,
+				currentTarget: node,
+				isAtStart: () => isCaretAtEdge(selection, node, true),
+				isAtEnd: () => isCaretAtEdge(selection, node, false),
+			})
+			if (handled === true) {
+				event.preventDefault()
+				event.stopPropagation()
+				return true
+			}
+		}
+	}
+	return false
+}
+
+function isCaretAtEdge(
+	selection: Selection | null | undefined,
+	node: Node,
+	start: boolean
+): boolean {
+	if (!selection || !selection.isCollapsed || !selection.focusNode) {
+		return false
+	}
+
+	const doc = node.ownerDocument
+	if (!doc || !node.contains(selection.focusNode)) {
+		return false
+	}
+
+	const range = doc.createRange()
+	range.selectNodeContents(node)
+	if (start) {
+		range.setEnd(selection.focusNode, selection.focusOffset)
+	} else {
+		range.setStart(selection.focusNode, selection.focusOffset)
+	}
+	return range.toString().length === 0
+}
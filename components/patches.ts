@@ -0,0 +1,249 @@
+import { useContext, useEffect, useState } from "react"
+import { deserializeNode, SerializedNode } from "./MutationRecorder"
+import {
+	NodePath,
+	restoreSelection,
+	SelectionPoint,
+	SelectionSnapshot,
+	snapshotSelection,
+} from "./selection"
+import { mutationsContext } from "./useMutations"
+
+/**
+ * A JSON change to the DOM inside a MutableRoot, from a collaborator, a
+ * server, or the app itself. Paths are relative to the root.
+ */
+export type Patch =
+	| {
+			readonly type: "insertText"
+			/** A text node. */
+			readonly path: NodePath
+			readonly offset: number
+			readonly text: string
+	  }
+	| {
+			readonly type: "deleteText"
+			/** A text node. */
+			readonly path: NodePath
+			readonly offset: number
+			readonly length: number
+	  }
+	| {
+			readonly type: "replaceNode"
+			readonly path: NodePath
+			readonly node: SerializedNode
+	  }
+	| {
+			readonly type: "setAttribute"
+			/** An element. */
+			readonly path: NodePath
+			readonly name: string
+			/** Removes the attribute if null. */
+			readonly value: string | null
+	  }
+
+/**
+ * Apply `patches` to the DOM inside `root`, in order, and move the selection
+ * through them. Call inside `DOMLock.mutate`, or use
+ * `MutationsContext.applyPatches`.
+ *
+ * Throws if a patch's path doesn't lead to a node of the right type. The
+ * patches before it stay applied.
+ */
+export function applyPatches(root: Node, patches: readonly Patch[]) {
+	const doc = root.ownerDocument
+	if (!doc) {
+		throw new Error("Cannot patch a node without a document")
+	}
+
+	let selection = snapshotSelection(root)
+	try {
+		for (const patch of patches) {
+			applyPatch(doc, root, patch)
+			selection = selection && mapSelection(selection, patch)
+		}
+	} finally {
+		if (selection) {
+			restoreSelection(root, selection)
+		}
+	}
+}
+
+function applyPatch(doc: Document, root: Node, patch: Patch) {
+	const node = findNode(root, patch.path)
+	switch (patch.type) {
+		case "insertText":
+			return asText(node, patch).insertData(patch.offset, patch.text)
+		case "deleteText":
+			return asText(node, patch).deleteData(patch.offset, patch.length)
+		case "replaceNode": {
+			if (!node.parentNode || node === root) {
+				throw new Error("Cannot replace the root")
+			}
+			node.parentNode.replaceChild(deserializeNode(doc, patch.node), node)
+			return
+		}
+		case "setAttribute": {
+			if (node.nodeType !== node.ELEMENT_NODE) {
+				throw new Error(`Cannot set attributes of ${node.nodeName}`)
+			}
+			if (patch.value === null) {
+				;(node as Element).removeAttribute(patch.name)
+			} else {
+				;(node as Element).setAttribute(patch.name, patch.value)
+			}
+			return
+		}
+	}
+}
+
+function findNode(root: Node, path: NodePath): Node {
+	let node = root
+	for (const index of path) {
+		const child = node.childNodes[index]
+		if (!child) {
+			throw new Error(`No node at path ${path.join("/")}`)
+		}
+		node = child
+	}
+	return node
+}
+
+function asText(node: Node, patch: Patch): Text {
+	if (node.nodeType !== node.TEXT_NODE) {
+		throw new Error(`Cannot ${patch.type} in ${node.nodeName}`)
+	}
+	return node as Text
+}
+
+function mapSelection(
+	selection: SelectionSnapshot,
+	patch: Patch
+): SelectionSnapshot {
+	return {
+		anchor: mapPoint(selection.anchor, patch),
+		focus: mapPoint(selection.focus, patch),
+	}
+}
+
+/**
+ * Patches never add or remove nodes, only replace them, so paths outside a
+ * replaced node stay valid.
+ */
+function mapPoint(point: SelectionPoint, patch: Patch): SelectionPoint {
+	switch (patch.type) {
+		case "insertText":
+			// Text inserted at the caret goes after it.
+			return isSamePath(point.path, patch.path) && point.offset > patch.offset
+				? { path: point.path, offset: point.offset + patch.text.length }
+				: point
+		case "deleteText":
+			return isSamePath(point.path, patch.path) && point.offset > patch.offset
+				? {
+						path: point.path,
+						offset: Math.max(patch.offset, point.offset - patch.length),
+				  }
+				: point
+		case "replaceNode":
+			// Inside the replaced node, move to the start of the new one.
+			return isPrefix(patch.path, point.path) &&
+				!isSamePath(point.path, patch.path)
+				? { path: patch.path, offset: 0 }
+				: point
+		case "setAttribute":
+			return point
+	}
+}
+
+function isSamePath(a: NodePath, b: NodePath) {
+	return a.length === b.length && isPrefix(a, b)
+}
+
+function isPrefix(prefix: NodePath, path: NodePath) {
+	return (
+		prefix.length <= path.length &&
+		prefix.every((index, i) => path[i] === index)
+	)
+}
+
+export interface PatchListener {
+	(patches: readonly Patch[]): void
+}
+
+/** Carries patches between editors, eg over a WebSocket. */
+export interface PatchTransport {
+	/**
+	 * Receive the patches the other connections send.
+	 * @returns Sends patches to the other connections.
+	 */
+	connect(listener: PatchListener): PatchConnection
+}
+
+export interface PatchConnection {
+	send(patches: readonly Patch[]): void
+	close(): void
+}
+
+/**
+ * An in-memory PatchTransport, for tests and for editors on the same page.
+ */
+export class LocalPatchTransport implements PatchTransport {
+	private listeners = new Set<PatchListener>()
+
+	/**
+	 * @param delay Milliseconds to wait before delivering patches, like a
+	 *   network would. Delivers synchronously if undefined.
+	 */
+	constructor(public delay?: number) {}
+
+	connect(listener: PatchListener): PatchConnection {
+		// Connecting the same listener twice makes two connections.
+		const receive: PatchListener = patches => listener(patches)
+		this.listeners.add(receive)
+		return {
+			send: patches => {
+				const deliver = () =>
+					this.listeners.forEach(other => {
+						if (other !== receive) {
+							other(patches)
+						}
+					})
+				if (this.delay === undefined) {
+					deliver()
+				} else {
+					setTimeout(deliver, this.delay)
+				}
+			},
+			close: () => {
+				this.listeners.delete(receive)
+			},
+		}
+	}
+}
+
+/**
+ * Apply the patches that arrive over `transport` to the closest MutableRoot.
+ * @returns A function to send patches to the other connections.
+ */
+export function usePatchTransport(
+	transport: PatchTransport
+): PatchListener | undefined {
+	const context = useContext(mutationsContext)
+	if (!context) {
+		throw new Error(
+			"No mutations context provided. Render a MutableRoot above this component in the tree"
+		)
+	}
+
+	const { applyPatches } = context
+	const [connection, setConnection] = useState<PatchConnection>()
+	useEffect(() => {
+		const connection = transport.connect(applyPatches)
+		setConnection(connection)
+		return () => {
+			connection.close()
+			setConnection(undefined)
+		}
+	}, [transport, applyPatches])
+	return connection?.send
+}
@@ -0,0 +1,106 @@
+import { getSelection } from "./dom"
+
+/**
+ * Child indexes leading from a root node down to a descendant. Unlike a Node
+ * reference, a path still means something after the node it was taken from is
+ * removed and replaced by a re-render.
+ */
+export type NodePath = readonly number[]
+
+export interface SelectionPoint {
+	readonly path: NodePath
+	/** Character offset in a text node, or child offset in an element. */
+	readonly offset: number
+}
+
+export interface SelectionSnapshot {
+	readonly anchor: SelectionPoint
+	readonly focus: SelectionPoint
+}
+
+/**
+ * @returns The path from `root` to `node`, or undefined if `node` is not inside `root`.
+ */
+export function getNodePath(root: Node, node: Node): NodePath | undefined {
+	const path: number[] = []
+	let current = node
+	while (current !== root) {
+		const parent = current.parentNode
+		if (!parent) {
+			return undefined
+		}
+		path.unshift(Array.prototype.indexOf.call(parent.childNodes, current))
+		current = parent
+	}
+	return path
+}
+
+/**
+ * Find the node at `path` inside `root`. If the tree changed shape so that
+ * the path no longer exists, returns the deepest node along the path that does.
+ */
+export function resolveNodePath(root: Node, path: NodePath): Node {
+	let node = root
+	for (const index of path) {
+		const child = node.childNodes[Math.min(index, node.childNodes.length - 1)]
+		if (!child) {
+			break
+		}
+		node = child
+	}
+	return node
+}
+
+function nodeLength(node: Node): number {
+	if (node.nodeType === node.TEXT_NODE || node.nodeType === node.COMMENT_NODE) {
+		return (node as CharacterData).length
+	}
+	return node.childNodes.length
+}
+
+function getPoint(
+	root: Node,
+	node: Node | null,
+	offset: number
+): SelectionPoint | undefined {
+	const path = node && getNodePath(root, node)
+	return path && { path, offset }
+}
+
+function resolvePoint(root: Node, point: SelectionPoint): [Node, number] {
+	const node = resolveNodePath(root, point.path)
+	return [node, Math.min(point.offset, nodeLength(node))]
+}
+
+/**
+ * @returns The document's selection relative to `root`, or undefined if the
+ * selection isn't inside `root`.
+ */
+export function snapshotSelection(root: Node): SelectionSnapshot | undefined {
+	const selection = getSelection(root)
+	if (!selection || selection.rangeCount === 0) {
+		return undefined
+	}
+
+	const anchor = getPoint(root, selection.anchorNode, selection.anchorOffset)
+	const focus = getPoint(root, selection.focusNode, selection.focusOffset)
+	if (!anchor || !focus) {
+		return undefined
+	}
+
+	return { anchor, focus }
+}
+
+/**
+ * Select `snapshot` inside `root`, as closely as the current tree allows.
+ */
+export function restoreSelection(root: Node, snapshot: SelectionSnapshot) {
+	const selection = getSelection(root)
+	if (!selection) {
+		return
+	}
+
+	const [anchorNode, anchorOffset] = resolvePoint(root, snapshot.anchor)
+	const [focusNode, focusOffset] = resolvePoint(root, snapshot.focus)
+	selection.setBaseAndExtent(anchorNode, anchorOffset, focusNode, focusOffset)
+}
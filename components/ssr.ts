@@ -0,0 +1,22 @@
+import { useEffect, useLayoutEffect, useState } from "react"
+
+/**
+ * useLayoutEffect in the browser. On the server, where neither effect runs,
+ * useEffect, which doesn't warn.
+ */
+export const useIsomorphicLayoutEffect =
+	typeof window === "undefined" ? useEffect : useLayoutEffect
+
+/**
+ * @returns false on the server and in the first render on the client, so
+ *   hydration matches the server's output. Then true, after rendering again
+ *   before the browser paints, so client-only mounts are never shown
+ *   read-only.
+ */
+export function useHydrated(): boolean {
+	const [hydrated, setHydrated] = useState(false)
+	useIsomorphicLayoutEffect(() => {
+		setHydrated(true)
+	}, [])
+	return hydrated
+}
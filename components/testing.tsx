@@ -0,0 +1,314 @@
+import { ReactElement } from "react"
+import ReactDOM from "react-dom"
+import { act } from "react-dom/test-utils"
+import { EditIntent, MutationsEvent, OnMutations } from "./types"
+
+/**
+ * Utilities for testing MutableRoots in a DOM environment like jsdom.
+ * MutationObserver batching, reverting and bubbling through the reverted tree
+ * only happen with real DOM records, so these helpers edit the DOM the way a
+ * browser would, and leave the rest to the MutableRoot under test.
+ *
+ * const log = new MutationLog()
+ * const harness = renderMutableRoot(
+ *   <MutableRoot onMutations={log.handler("root")}>
+ *     <Mutable as="p" onMutations={log.handler("p")}>hello</Mutable>
+ *   </MutableRoot>
+ * )
+ * harness.select(harness.root.querySelector("p").firstChild, 5)
+ * harness.typeText(" world")
+ * await harness.flushMutations()
+ * harness.assertReverted()
+ * log.receiversOf(log.entries[0].mutations[0]) // ["p", "root"]
+ */
+
+export interface LoggedMutationsEvent {
+	/** The name passed to `MutationLog.handler` */
+	readonly name: string
+	readonly currentTarget: Node
+	readonly mutations: readonly MutationRecord[]
+	readonly intent: EditIntent | undefined
+	readonly event: MutationsEvent
+}
+
+/**
+ * Records the events received by its handlers, in dispatch order.
+ */
+export class MutationLog {
+	entries: LoggedMutationsEvent[] = []
+
+	/**
+	 * @param name Identifies the handler in the log.
+	 * @param then Called with each event after it's logged, eg to stop
+	 *   propagation.
+	 */
+	handler(name: string, then?: OnMutations): OnMutations {
+		return event => {
+			this.entries.push({
+				name,
+				currentTarget: event.currentTarget,
+				mutations: event.mutations,
+				intent: event.intent,
+				event,
+			})
+			then?.(event)
+		}
+	}
+
+	/** @returns The names of the handlers that received `mutation`, in order. */
+	receiversOf(mutation: MutationRecord): string[] {
+		return this.entries
+			.filter(entry => entry.mutations.includes(mutation))
+			.map(entry => entry.name)
+	}
+
+	/** @returns The records received by the handler called `name`. */
+	receivedBy(name: string): MutationRecord[] {
+		return this.entries
+			.filter(entry => entry.name === name)
+			.flatMap(entry => entry.mutations)
+	}
+
+	clear() {
+		this.entries = []
+	}
+}
+
+export interface MutableRootHarness {
+	readonly container: HTMLElement
+	/** The MutableRoot's node. */
+	readonly root: HTMLElement
+	/** Render again, eg with new props. */
+	render(element: ReactElement): void
+	/** Collapse the selection at (`node`, `offset`). */
+	select(node: Node, offset: number): void
+	/**
+	 * Insert `text` at the caret, like typing. Dispatches `beforeinput` first,
+	 * and skips the edit if it's prevented.
+	 */
+	typeText(text: string): void
+	/**
+	 * Start an IME composition at the caret. Until `endComposition`, the root
+	 * queues mutations instead of dispatching and reverting them.
+	 */
+	startComposition(): void
+	/** Insert `text` at the caret as part of the current composition. */
+	compose(text: string): void
+	/** End the composition, committing the text composed since it started. */
+	endComposition(): void
+	/** Delete `count` characters before the caret, like pressing Backspace. */
+	deleteBackward(count?: number): void
+	/** Insert `node` into `parent` before `before`, or at the end. */
+	moveNode(node: Node, parent: Node, before?: Node | null): void
+	/** Set an attribute, or remove it if `value` is null. */
+	setAttribute(element: Element, name: string, value: string | null): void
+	/**
+	 * Wait for the MutableRoot to dispatch and revert the edits made since the
+	 * last flush, and for the renders they cause to commit.
+	 */
+	flushMutations(): Promise<void>
+	/**
+	 * Throw unless the DOM inside the root matches `expectedHTML`, which
+	 * defaults to the DOM before the edits of the last flushed batch.
+	 */
+	assertReverted(expectedHTML?: string): void
+	unmount(): void
+}
+
+/**
+ * Render `element`, usually a MutableRoot, into a new container attached to
+ * the document.
+ */
+export function renderMutableRoot(element: ReactElement): MutableRootHarness {
+	const container = document.createElement("div")
+	document.body.appendChild(container)
+	const harness = createHarness(container)
+	harness.render(element)
+	return harness
+}
+
+/**
+ * Hydrate `element` over `serverHTML` in a new container attached to the
+ * document. The root is read-only until hydration commits, and doesn't
+ * dispatch or revert anything React changes while hydrating.
+ * @param serverHTML What the server rendered, eg with `renderToString`.
+ */
+export function hydrateMutableRoot(
+	element: ReactElement,
+	serverHTML: string
+): MutableRootHarness {
+	const container = document.createElement("div")
+	container.innerHTML = serverHTML
+	document.body.appendChild(container)
+	act(() => {
+		ReactDOM.hydrate(element, container)
+	})
+	return createHarness(container)
+}
+
+function createHarness(container: HTMLElement): MutableRootHarness {
+	// Before the edits of the pending batch, and of the last flushed batch.
+	let pendingHTML: string | undefined
+	let flushedHTML: string | undefined
+	// The text composed so far, during a composition.
+	let composition: string | undefined
+
+	const getRoot = () => {
+		const root =
+			container.querySelector("[contenteditable=true]") ??
+			container.firstElementChild
+		if (!root) {
+			throw new Error("Nothing was rendered")
+		}
+		return root as HTMLElement
+	}
+
+	const beforeEdit = () => {
+		if (pendingHTML === undefined) {
+			pendingHTML = getRoot().innerHTML
+		}
+	}
+
+	const getCaret = () => {
+		const selection = document.getSelection()
+		const node = selection?.focusNode
+		if (!selection || !node || node.nodeType !== node.TEXT_NODE) {
+			throw new Error("Select a position in a text node first")
+		}
+		return { selection, text: node as Text, offset: selection.focusOffset }
+	}
+
+	const dispatchInput = (
+		type: "beforeinput" | "input",
+		target: Node,
+		inputType: string,
+		data: string | null
+	) => {
+		const event = new InputEvent(type, {
+			inputType,
+			data,
+			bubbles: true,
+			cancelable:
+				type === "beforeinput" && inputType !== "insertCompositionText",
+		})
+		target.dispatchEvent(event)
+		return !event.defaultPrevented
+	}
+
+	const harness: MutableRootHarness = {
+		container,
+		get root() {
+			return getRoot()
+		},
+		render(element) {
+			act(() => {
+				ReactDOM.render(element, container)
+			})
+		},
+		select(node, offset) {
+			document.getSelection()?.collapse(node, offset)
+		},
+		typeText(text) {
+			const { selection, text: node, offset } = getCaret()
+			if (!dispatchInput("beforeinput", node, "insertText", text)) {
+				return
+			}
+			beforeEdit()
+			node.insertData(offset, text)
+			selection.collapse(node, offset + text.length)
+			dispatchInput("input", node, "insertText", text)
+		},
+		startComposition() {
+			const { text: node } = getCaret()
+			composition = ""
+			node.dispatchEvent(
+				new CompositionEvent("compositionstart", { data: "", bubbles: true })
+			)
+		},
+		compose(text) {
+			if (composition === undefined) {
+				throw new Error("Call startComposition first")
+			}
+			const { selection, text: node, offset } = getCaret()
+			composition += text
+			node.dispatchEvent(
+				new CompositionEvent("compositionupdate", {
+					data: composition,
+					bubbles: true,
+				})
+			)
+			dispatchInput("beforeinput", node, "insertCompositionText", text)
+			beforeEdit()
+			node.insertData(offset, text)
+			selection.collapse(node, offset + text.length)
+			dispatchInput("input", node, "insertCompositionText", text)
+		},
+		endComposition() {
+			if (composition === undefined) {
+				throw new Error("Call startComposition first")
+			}
+			const { text: node } = getCaret()
+			const data = composition
+			composition = undefined
+			node.dispatchEvent(
+				new CompositionEvent("compositionend", { data, bubbles: true })
+			)
+		},
+		deleteBackward(count = 1) {
+			for (let i = 0; i < count; i++) {
+				const { selection, text: node, offset } = getCaret()
+				if (offset === 0) {
+					throw new Error("Can only delete inside a text node")
+				}
+				if (
+					!dispatchInput("beforeinput", node, "deleteContentBackward", null)
+				) {
+					return
+				}
+				beforeEdit()
+				node.deleteData(offset - 1, 1)
+				selection.collapse(node, offset - 1)
+				dispatchInput("input", node, "deleteContentBackward", null)
+			}
+		},
+		moveNode(node, parent, before = null) {
+			beforeEdit()
+			parent.insertBefore(node, before)
+		},
+		setAttribute(element, name, value) {
+			beforeEdit()
+			if (value === null) {
+				element.removeAttribute(name)
+			} else {
+				element.setAttribute(name, value)
+			}
+		},
+		async flushMutations() {
+			flushedHTML = pendingHTML
+			pendingHTML = undefined
+			await act(async () => {
+				// Observer callbacks run in a microtask, and the end of an IME
+				// composition is handled in a task.
+				await new Promise(resolve => setTimeout(resolve))
+			})
+		},
+		assertReverted(expectedHTML = flushedHTML) {
+			if (expectedHTML === undefined) {
+				throw new Error("No edits were flushed")
+			}
+			const actualHTML = getRoot().innerHTML
+			if (actualHTML !== expectedHTML) {
+				throw new Error(
+					`Expected the DOM to be reverted to:\n${expectedHTML}\nbut got:\n${actualHTML}`
+				)
+			}
+		},
+		unmount() {
+			act(() => {
+				ReactDOM.unmountComponentAtNode(container)
+			})
+			container.remove()
+		},
+	}
+	return harness
+}
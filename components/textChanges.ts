@@ -0,0 +1,95 @@
+import { getDocument, SHOW_TEXT } from "./dom"
+
+export interface TextChange {
+	readonly node: CharacterData
+	/** Offset of the change in the node's text before the batch. */
+	readonly offset: number
+	readonly deleted: string
+	readonly inserted: string
+	/**
+	 * Offset of the change in the combined text of the Mutable receiving the
+	 * event, before the batch. Undefined if `node` is no longer inside it.
+	 *
+	 * Apply changes from the highest `mutableOffset` to the lowest to splice
+	 * them into the old text. Only `characterData` mutations are taken into
+	 * account: text nodes added or removed in the same batch aren't.
+	 */
+	readonly mutableOffset: number | undefined
+}
+
+/**
+ * Diff the text of each node changed by a `characterData` mutation. Several
+ * mutations of the same node are merged into one change.
+ * @param container The Mutable receiving `mutations`.
+ * @returns Changes in document order.
+ */
+export function computeTextChanges(
+	mutations: readonly MutationRecord[],
+	container: Node
+): TextChange[] {
+	// The first mutation of each node has its value before the batch.
+	const oldValues = new Map<CharacterData, string>()
+	for (const mutation of mutations) {
+		const target = mutation.target as CharacterData
+		if (mutation.type === "characterData" && !oldValues.has(target)) {
+			oldValues.set(target, mutation.oldValue ?? "")
+		}
+	}
+
+	const changes: TextChange[] = []
+	const mutableOffsets = getOldTextOffsets(container, oldValues)
+	for (const [node, oldValue] of oldValues) {
+		const newValue = node.data
+		if (oldValue === newValue) {
+			continue
+		}
+
+		let start = 0
+		const maxLength = Math.min(oldValue.length, newValue.length)
+		while (start < maxLength && oldValue[start] === newValue[start]) {
+			start++
+		}
+
+		let end = 0
+		while (
+			end < maxLength - start &&
+			oldValue[oldValue.length - 1 - end] ===
+				newValue[newValue.length - 1 - end]
+		) {
+			end++
+		}
+
+		const nodeOffset = mutableOffsets.get(node)
+		changes.push({
+			node,
+			offset: start,
+			deleted: oldValue.slice(start, oldValue.length - end),
+			inserted: newValue.slice(start, newValue.length - end),
+			mutableOffset: nodeOffset === undefined ? undefined : nodeOffset + start,
+		})
+	}
+
+	return changes.sort(
+		(a, b) => (a.mutableOffset ?? Infinity) - (b.mutableOffset ?? Infinity)
+	)
+}
+
+/**
+ * @returns Where each text node in `container` started in the container's
+ *   text, before the batch.
+ */
+function getOldTextOffsets(
+	container: Node,
+	oldValues: Map<CharacterData, string>
+): Map<Node, number> {
+	const offsets = new Map<Node, number>()
+	const walker = getDocument(container).createTreeWalker(container, SHOW_TEXT)
+	let offset = 0
+	let node: Node | null
+	while ((node = walker.nextNode())) {
+		offsets.set(node, offset)
+		const text = node as Text
+		offset += oldValues.get(text)?.length ?? text.length
+	}
+	return offsets
+}
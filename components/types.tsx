@@ -1,23 +1,184 @@
+import { ClipboardSerializer, OnPaste, PasteEvent } from "./clipboard"
+import { KeyCommandEvent, KeyCommands } from "./keyCommands"
+import { SelectionSnapshot } from "./selection"
+import { TextChange } from "./textChanges"
+
+/**
+ * What the user meant to do, captured from the `beforeinput` event that caused
+ * a batch of mutations.
+ * See https://developer.mozilla.org/en-US/docs/Web/API/InputEvent
+ */
+export interface EditIntent {
+	/** Eg "insertText", "deleteContentBackward", "insertFromPaste", "formatBold" */
+	readonly inputType: string
+	readonly data: string | null
+	readonly dataTransfer: DataTransfer | null
+	/** Captured during `beforeinput`, so still valid after the DOM changes. */
+	readonly targetRanges: readonly StaticRange[]
+	/** Where the edit starts. Intents bubble from this node. */
+	readonly target: Node
+	readonly nativeEvent: InputEvent
+	readonly defaultPrevented: boolean
+	/**
+	 * Stop the browser from performing the edit. Only effective while the
+	 * intent is dispatched before the browser mutates the DOM, see
+	 * MutableRoot's `intentOnly` prop.
+	 */
+	preventDefault(): void
+}
+
 export interface MutationsEvent {
+	/** Empty when dispatching an intent before the browser mutates the DOM. */
 	readonly mutations: readonly MutationRecord[]
+	/** The Mutable node whose handler is receiving this event. */
+	readonly currentTarget: Node
+	/** The intent that caused these mutations, if the browser reported one. */
+	readonly intent: EditIntent | undefined
+	/**
+	 * Set when these are the mutations of a whole IME composition, which are
+	 * only reverted once the composition ends. `data` is the composed text.
+	 */
+	readonly composition: { readonly data: string } | undefined
 	/**
 	 * Stop the given `mutations` from bubbling up to other components. Call this
 	 * on the mutation events that you handle internally and don't want components
 	 * above your handler in the React tree to consider.
+	 *
+	 * With no arguments, stops all of this event's mutations. Mutations that
+	 * other Mutables receive keep propagating to them. When dispatching an
+	 * intent before the browser mutates the DOM, stops the intent.
+	 */
+	stopPropagation(mutations?: readonly MutationRecord[]): void
+
+	/**
+	 * Keep `mutations` in the DOM instead of reverting them. The lock
+	 * continues from the changed DOM, so only accept changes that React
+	 * renders the same way once your state catches up, like typing into a text
+	 * node. Defaults to all of this event's mutations.
+	 *
+	 * If several handlers accept or reject a mutation, the last one wins.
 	 */
-	stopPropagation(mutations: readonly MutationRecord[]): void
+	accept(mutations?: readonly MutationRecord[]): void
+
+	/**
+	 * Revert `mutations` even if a Mutable's policy accepts them. Defaults to
+	 * all of this event's mutations.
+	 */
+	reject(mutations?: readonly MutationRecord[]): void
 
 	/**
 	 * Get only mutations to or inside of `node`
 	 * @param node Parent node
 	 */
 	mutationsIn(node: Node): readonly MutationRecord[]
+
+	/**
+	 * Diff the text nodes changed by `characterData` mutations in this event,
+	 * one change per text node.
+	 */
+	textChanges(): TextChange[]
+
+	/**
+	 * The selection as the user saw it after these mutations, as paths
+	 * relative to the MutableRoot. Paths stay meaningful after the mutations
+	 * are reverted and the tree is re-rendered.
+	 */
+	readonly selection: SelectionSnapshot | undefined
+
+	/**
+	 * Select `selection` after the mutations are reverted, and again after the
+	 * re-render caused by this event commits. Use this when the re-render
+	 * produces a different tree than the one the user edited.
+	 */
+	setSelection(selection: SelectionSnapshot | undefined): void
+
+	/**
+	 * Apply `update` together with the revert, rendering it before the
+	 * browser paints. Use this for the state update that re-renders the edit,
+	 * so the edit doesn't flicker:
+	 *
+	 * event.commit(() => setText(newText))
+	 */
+	commit(update: () => void): void
 	// todo: root dom node?
-	// todo: target dom node??
 }
 
 export interface OnMutations {
 	(event: MutationsEvent): void
 }
 
+/**
+ * Everything a Mutable registers with its MutableRoot.
+ */
+export interface MutableHandlers {
+	/** Bubble phase handler, called deepest Mutable first. */
+	onMutations?: OnMutations
+	/** Capture phase handler, called outermost Mutable first. */
+	onMutationsCapture?: OnMutations
+	/**
+	 * Parse the Mutable's DOM into a model value. Called after a batch that
+	 * touched the Mutable's subtree, before the batch is reverted.
+	 * @see MutableRoot's `onChange`
+	 */
+	parse?: (node: Node) => unknown
+	/** Set by MutableIsland: the subtree isn't editable, and the caret skips it. */
+	island?: boolean
+	/** Only dispatch these records to the handlers. Defaults to all records. */
+	observe?: MutationFilter
+	/**
+	 * What to do with records inside the Mutable that `observe` filters out,
+	 * if no other Mutable receives them. Defaults to "revert".
+	 */
+	unobserved?: UnobservedMutations
+	/** What to do with mutations inside the Mutable that no handler decides. */
+	policy?: MutationPolicy
+	onPaste?: OnPaste
+	serialize?: ClipboardSerializer
+	keyCommands?: KeyCommands
+}
+
+/**
+ * The record types a Mutable receives, like a MutationObserverInit. Record
+ * types that aren't set to true are filtered out.
+ */
+export interface MutationFilter {
+	childList?: boolean
+	characterData?: boolean
+	attributes?: boolean
+	/** Only receive mutations of these attributes. Implies `attributes`. */
+	attributeFilter?: readonly string[]
+}
+
+/**
+ * "revert": undo the records, like any other mutation.
+ * "allow": leave them in the DOM. React doesn't know about them, so only allow
+ *   changes React won't render over, like attributes it doesn't manage.
+ */
+export type UnobservedMutations = "revert" | "allow"
+
+/**
+ * What to do with mutations that no handler accepts or rejects.
+ *
+ * "revert": revert them. The default.
+ * "accept": keep them in the DOM.
+ * "handler-decides": the handlers are expected to accept or reject every
+ *   mutation. Undecided mutations are reverted and reported to the
+ *   instrumentation's `onUndecided`.
+ */
+export type MutationPolicy = "revert" | "accept" | "handler-decides"
+
+export interface OnMutationsError {
+	/**
+	 * @param error Thrown by the handler
+	 * @param event The event the handler received. A PasteEvent for `onPaste`
+	 *   handlers, and a KeyCommandEvent for key commands.
+	 * @param node The handler's node
+	 */
+	(
+		error: unknown,
+		event: MutationsEvent | PasteEvent | KeyCommandEvent,
+		node: Node
+	): void
+}
+
 export function MutableDomRoot(props: { onMutations: OnMutations }) {}
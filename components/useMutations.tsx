@@ -8,7 +8,10 @@ import {
 	useState,
 } from "react"
 import { MutableRegistry } from "./MutableRegistry"
-import { OnMutations } from "./types"
+import { MutationHistory } from "./MutationHistory"
+import { MutationInspector } from "./MutationInspector"
+import { Patch } from "./patches"
+import { MutableHandlers, OnMutations } from "./types"
 import { DOMLock, useUnlockForRender } from "./useRevertMutations"
 
 export const mutationsContext = createContext<MutationsContext | undefined>(
@@ -19,9 +22,23 @@ mutationsContext.displayName = "Mutations"
 export interface MutationsContext {
 	lock: DOMLock
 	registry: MutableRegistry
+	history?: MutationHistory
+	inspector?: MutationInspector
+	/**
+	 * Apply patches to the root's DOM, moving the selection through them. No
+	 * handler receives the changes, and they aren't recorded in the history.
+	 * React doesn't know about them either: patch DOM it doesn't render, or
+	 * render the same change afterwards.
+	 */
+	applyPatches(patches: readonly Patch[]): void
 }
 
-export function useMutations(eventHandler?: OnMutations): {
+/**
+ * Register a DOM node with the closest MutableRoot.
+ * @param handlers An OnMutations handler, or several handlers. Memoize them
+ *   to avoid re-registering on every render.
+ */
+export function useMutations(handlers?: OnMutations | MutableHandlers): {
 	ref: RefCallback<Node>
 	mutate: DOMLock["mutate"]
 } {
@@ -36,10 +53,16 @@ export function useMutations(eventHandler?: OnMutations): {
 	const [node, setNode] = useState<Node>()
 
 	useEffect(() => {
-		if (eventHandler) {
-			return context.registry.register(id.current, node, eventHandler)
+		if (typeof handlers === "function") {
+			return context.registry.register(id.current, node, {
+				onMutations: handlers,
+			})
 		}
-	}, [context.registry, node, eventHandler])
+
+		if (handlers) {
+			return context.registry.register(id.current, node, handlers)
+		}
+	}, [context.registry, node, handlers])
 
 	useUnlockForRender(context.lock)
 
@@ -2,11 +2,24 @@ import React, {
 	RefCallback,
 	useContext,
 	useImperativeHandle,
-	useLayoutEffect,
 	useRef,
 	useState,
 } from "react"
 import { ReactNode } from "react"
+import { flushSync, unstable_batchedUpdates } from "react-dom"
+import {
+	restoreSelection,
+	SelectionSnapshot,
+	snapshotSelection,
+} from "./selection"
+import { isElement } from "./dom"
+import {
+	defaultInstrumentation,
+	LockState,
+	MutationInstrumentation,
+	now,
+} from "./instrumentation"
+import { useIsomorphicLayoutEffect } from "./ssr"
 import { OnMutations } from "./types"
 
 export interface DOMLock {
@@ -18,6 +31,14 @@ export interface DOMLock {
 	unlockForRender(): void
 	/** Re-lock after an unlockForRender  */
 	lockAfterRender(): void
+	/**
+	 * Hand the subtree at `node` over to `owner`, usually the lock of a nested
+	 * MutableRoot. We stop reverting and dispatching mutations inside the
+	 * subtree, and unlock `owner` whenever we unlock. Without an `owner`, the
+	 * subtree is left entirely to React.
+	 * @returns A function to release the claim.
+	 */
+	claimSubtree(node: Node, owner?: DOMLock): () => void
 }
 
 export interface UseRevertMutationsResult extends DOMLock {
@@ -51,6 +72,10 @@ export class IndirectDOMLock implements DOMLock {
 
 		return fn(null)
 	}
+
+	readonly claimSubtree: DOMLock["claimSubtree"] = (node, owner) => {
+		return this.actual?.claimSubtree(node, owner) ?? (() => {})
+	}
 }
 
 /**
@@ -58,7 +83,7 @@ export class IndirectDOMLock implements DOMLock {
  * DOMMutationLock component.
  */
 export function useUnlockForRender(locker: DOMLock) {
-	useLayoutEffect(() => {
+	useIsomorphicLayoutEffect(() => {
 		locker.lockAfterRender()
 		return locker.unlockForRender
 	})
@@ -76,7 +101,49 @@ const observeOptions: MutationObserverInit = {
 	characterDataOldValue: true,
 }
 
-export type LowLevelOnMutations = (mutations: MutationRecord[]) => void
+/**
+ * Information about a batch of mutations that's about to be reverted.
+ */
+export interface MutationBatch {
+	/**
+	 * Set when the batch contains every mutation made during an IME
+	 * composition. `data` is the composed text.
+	 */
+	readonly composition: { readonly data: string } | undefined
+	/** The selection before the mutations are reverted, relative to the locked root. */
+	readonly selection: SelectionSnapshot | undefined
+	/**
+	 * Select `selection` once the mutations are reverted, and again once
+	 * the next render commits. Defaults to `this.selection`.
+	 */
+	setSelection(selection: SelectionSnapshot | undefined): void
+	/** Leave `mutations` in the DOM instead of reverting them. */
+	allow(mutations: Iterable<MutationRecord>): void
+	/**
+	 * Apply `update`, usually a React state update, right after the batch is
+	 * reverted, and render it synchronously so the browser never paints the
+	 * reverted DOM.
+	 */
+	commit(update: () => void): void
+}
+
+export interface UseRevertMutationsOptions {
+	/**
+	 * Called right before we start observing `root`, after a render or after
+	 * reverting a batch, when the DOM matches what React rendered.
+	 */
+	onBeforeObserve?: (root: Node) => void
+	/**
+	 * Reports batches, reverts and lock state changes. Defaults to
+	 * `defaultInstrumentation`, which is silent in production.
+	 */
+	instrumentation?: MutationInstrumentation
+}
+
+export type LowLevelOnMutations = (
+	mutations: MutationRecord[],
+	batch: MutationBatch
+) => void
 
 /**
  * Revert all mutations within `root`. Use inside a contentEditable to prevent
@@ -87,36 +154,99 @@ export type LowLevelOnMutations = (mutations: MutationRecord[]) => void
  * must use the returned DOMLock to unlock the DOM during rendering
  * or mutation.
  *
+ * Handlers that update React state with `batch.commit` are rendered in the
+ * same task as the revert, so the user doesn't see their edit disappear and
+ * come back.
+ *
+ * Mutations made during an IME composition are not reverted until the
+ * composition ends, and then dispatched as a single batch. Renders and
+ * mutations during a composition apply on top of the composed DOM.
+ *
  * @param root DOM node.
- * @param onMutations Called after the mutations are reverted.
+ * @param onMutations Called before the mutations are reverted.
  * @see useUnlockForRender
  */
 export function useRevertMutations(
 	revert: boolean,
-	onMutations?: LowLevelOnMutations
+	onMutations?: LowLevelOnMutations,
+	options: UseRevertMutationsOptions = {}
 ): UseRevertMutationsResult {
 	// Create refs. We'll apply changes below.
 	const nodeRef = useRef<Node>()
 	const shouldRevert = useRef(revert)
 	const onMutationsRef = useRef<LowLevelOnMutations | undefined>(onMutations)
+	const optionsRef = useRef(options)
 
 	// We use useState() to guarantee a closure that runs only once.
 	// We're never going to replace the state from the closure.
 	const [state] = useState<UseRevertMutationsResult>(() => {
 		let isObserving = false
+		let lockState: LockState = "unlocked"
+		let lockStateSince = now()
+		// Restored once the render caused by the last batch commits.
+		let pendingSelection: SelectionSnapshot | undefined
+		// Reverting during an IME composition cancels it, so between
+		// compositionstart and compositionend we only queue mutations.
+		let isComposing = false
+		// Set by compositionend, until the composition's batch is dispatched.
+		let endedComposition: { data: string } | undefined
+		// Set from dispatching a batch until it's reverted. Renders in between
+		// mustn't relock, or we'd observe the revert.
+		let isReverting = false
 
+		// Subtrees owned by nested locks, or left alone entirely.
+		const claimedSubtrees = new Map<Node, DOMLock | undefined>()
 		const queue: MutationRecord[] = []
-		const observer =
-			typeof MutationObserver == "undefined"
-				? undefined
-				: new MutationObserver(records => {
-						queue.push(...records)
-						stopObservingAndRollBackChanges()
+		// Created the first time we lock, which never happens on the server.
+		let observer: MutationObserver | undefined
+
+		function onObservedMutations(records: MutationRecord[]) {
+			queue.push(...records)
+			if (isComposing || endedComposition) {
+				return
+			}
+			try {
+				stopObservingAndRollBackChanges(true)
+			} finally {
+				startObserving()
+			}
+		}
+
+		function onCompositionStart() {
+			isComposing = true
+		}
+
+		function onCompositionEnd(event: Event) {
+			isComposing = false
+			endedComposition = { data: (event as CompositionEvent).data ?? "" }
+			// Some browsers fire compositionend before the final mutation, so wait
+			// for the rest of this task's mutations before dispatching.
+			setTimeout(() => {
+				if (!endedComposition) {
+					return
+				}
+				const shouldLockAfterComposition = isObserving
+				try {
+					stopObservingAndRollBackChanges(true)
+				} finally {
+					if (shouldLockAfterComposition) {
 						startObserving()
-				  })
+					}
+				}
+			})
+		}
 
 		function setNode(node: Node | null | undefined) {
-			mutate(() => (nodeRef.current = node))
+			mutate(() => {
+				nodeRef.current?.removeEventListener(
+					"compositionstart",
+					onCompositionStart
+				)
+				nodeRef.current?.removeEventListener("compositionend", onCompositionEnd)
+				node?.addEventListener("compositionstart", onCompositionStart)
+				node?.addEventListener("compositionend", onCompositionEnd)
+				nodeRef.current = node
+			})
 		}
 
 		function startObserving() {
@@ -126,62 +256,227 @@ export function useRevertMutations(
 
 			const node = nodeRef.current
 			if (node) {
-				observer?.observe(node, observeOptions)
+				optionsRef.current.onBeforeObserve?.(node)
+				if (!observer) {
+					observer = new MutationObserver(onObservedMutations)
+				}
+				observer.observe(node, observeOptions)
 				isObserving = true
+				setLockState("locked")
 			}
 		}
 
-		function stopObservingAndRollBackChanges() {
+		function setLockState(state: LockState) {
+			if (lockState !== state) {
+				const previous = lockState
+				const since = lockStateSince
+				lockState = state
+				lockStateSince = now()
+				getInstrumentation().onLockStateChange?.(
+					state,
+					previous,
+					lockStateSince - since
+				)
+			}
+		}
+
+		function getInstrumentation() {
+			return optionsRef.current.instrumentation ?? defaultInstrumentation
+		}
+
+		/**
+		 * @param canFlush Whether it's safe to render synchronously: true unless
+		 *   we're called from `mutate` or while React renders.
+		 */
+		function stopObservingAndRollBackChanges(canFlush = false) {
 			if (observer) {
+				// Disconnecting discards records that weren't delivered yet.
+				queue.push(...observer.takeRecords())
 				observer.disconnect()
 				isObserving = false
 				// Important: order mutations from newest to oldest so we can revert them
 				// one at a time.
-				const mutations = queue.concat(observer.takeRecords())
+				if (isComposing) {
+					// Keep the composed DOM as-is while we render or mutate.
+					return
+				}
+
+				const mutations = queue.filter(mutation => !isClaimed(mutation.target))
 				queue.length = 0
+				const composition = endedComposition
+				endedComposition = undefined
+				if (mutations.length === 0) {
+					return
+				}
+
+				const node = nodeRef.current
+				const selection = node && snapshotSelection(node)
+				let nextSelection = selection
+				const allowed = new Set<MutationRecord>()
+				const commits: Array<() => void> = []
+				const instrumentation = getInstrumentation()
+				const dispatchStart = now()
+				let revertStart = dispatchStart
+				let commitStart = dispatchStart
+				// Handlers may update state without `batch.commit`. Batch those updates
+				// too, so they render after the revert rather than on top of the
+				// mutated DOM.
+				unstable_batchedUpdates(() => {
+					isReverting = true
+					try {
+						try {
+							onMutationsRef.current?.(mutations.slice(), {
+								composition,
+								selection,
+								setSelection(selection) {
+									nextSelection = selection
+								},
+								allow(mutations) {
+									for (const mutation of mutations) {
+										allowed.add(mutation)
+									}
+								},
+								commit(update) {
+									commits.push(update)
+								},
+							})
+						} catch (error) {
+							// Never skip the revert below, or the DOM diverges from React.
+							reportUncaughtError(error)
+						}
+
+						/**
+						 * We call event handlers before reverting the mutations, so they can
+						 * read the "new" state of the DOM. That DOM might have changed in an
+						 * arbitrary way, so handlers should bubble events through the "old"
+						 * tree, as saved by `onBeforeObserve`, rather than the live DOM.
+						 */
+						revertStart = now()
+						for (const mutation of mutations.slice().reverse()) {
+							if (allowed.has(mutation)) {
+								continue
+							}
+							// Revert in reverse order
+							try {
+								revertDOMMutation(mutation)
+								instrumentation.onRevert?.(mutation, true)
+							} catch (error) {
+								// Keep reverting the rest of the batch.
+								instrumentation.onRevert?.(mutation, false, error)
+							}
+						}
+						commitStart = now()
+
+						// Reverting removes and re-inserts nodes, which loses the selection.
+						pendingSelection = nextSelection
+						if (node && nextSelection) {
+							restoreSelection(node, nextSelection)
+							// Renders caused by the handler commit before the next task. After
+							// that, the user may have moved the selection themselves.
+							setTimeout(() => {
+								if (pendingSelection === nextSelection) {
+									pendingSelection = undefined
+								}
+							})
+						}
+					} finally {
+						isReverting = false
+					}
+
+					if (commits.length > 0) {
+						// Render the handlers' updates before the browser paints the reverted
+						// DOM. The render relocks through useUnlockForRender, and our caller
+						// relocks in case nothing that renders uses it.
+						const runCommits = () =>
+							commits.forEach(update => {
+								try {
+									update()
+								} catch (error) {
+									reportUncaughtError(error)
+								}
+							})
+						try {
+							if (canFlush) {
+								flushSync(runCommits)
+							} else {
+								runCommits()
+							}
+						} catch (error) {
+							reportUncaughtError(error)
+						}
+					}
+				})
+
+				instrumentation.onBatch?.({
+					mutations,
+					composition: Boolean(composition),
+					dispatchDuration: revertStart - dispatchStart,
+					revertDuration: commitStart - revertStart,
+					commitDuration: now() - commitStart,
+				})
+			}
+		}
 
-				onMutationsRef.current(mutations.slice())
-
-				/**
-				 * OOPS OOPS OOPS BIG CONCEPTUAL PROBLEM:
-				 *
-				 * If we revert mutations before calling our event handlers, then the event handler
-				 * can't access the "new" state, since we destroyed that state by reverting the mutations
-				 * already.
-				 *
-				 * But, if we try to call event handlers BEFORE reverting the mutations, then the DOM might
-				 * have changed in an arbitrary way, and we might not be able to bubble our events up the "old"
-				 * DOM tree.
-				 *
-				 * The best solution is probably to save a snapshot of the event bubbling path after every render
-				 * phase, or after every revert, or right before we start watching for changes -- then
-				 * we dispatch our events using that saved DOM state before we do the reverts.
-				 */
-				for (const mutation of mutations.reverse()) {
-					// Revert in reverse order
-					revertDOMMutation(mutation)
+		function isClaimed(target: Node) {
+			for (let node: Node | null = target; node; node = node.parentNode) {
+				if (claimedSubtrees.has(node)) {
+					return true
+				}
+			}
+			return false
+		}
+
+		function claimSubtree(node: Node, owner?: DOMLock) {
+			claimedSubtrees.set(node, owner)
+			return () => {
+				if (claimedSubtrees.get(node) === owner) {
+					claimedSubtrees.delete(node)
 				}
 			}
 		}
 
 		function mutate<T>(fn: (root: Node | null) => T): T {
 			const shouldLockAfterMutation = isObserving
+			const previousLockState = lockState
 			try {
 				stopObservingAndRollBackChanges()
-				return fn(nodeRef.current)
+				setLockState("mutating")
+				// `fn` may change nested locks' subtrees, so unlock them too.
+				let unlocked = () => fn(nodeRef.current)
+				for (const owner of claimedSubtrees.values()) {
+					if (owner) {
+						const inner = unlocked
+						unlocked = () => owner.mutate(inner)
+					}
+				}
+				return unlocked()
 			} finally {
 				if (shouldLockAfterMutation) {
 					startObserving()
+				} else {
+					setLockState(previousLockState)
 				}
 			}
 		}
 
 		function unlockForRender() {
 			stopObservingAndRollBackChanges()
+			setLockState("unlocked")
+			claimedSubtrees.forEach(owner => owner?.unlockForRender())
 		}
 
 		function lockAfterRender() {
-			if (shouldRevert.current) {
+			// All DOM changes in a commit happen before any layout effect, so the
+			// first relock after a batch sees the re-rendered tree.
+			const node = nodeRef.current
+			if (node && pendingSelection) {
+				restoreSelection(node, pendingSelection)
+			}
+			pendingSelection = undefined
+
+			claimedSubtrees.forEach(owner => owner?.lockAfterRender())
+			// Whoever started reverting relocks once they're done.
+			if (shouldRevert.current && !isReverting) {
 				startObserving()
 			}
 		}
@@ -195,13 +490,15 @@ export function useRevertMutations(
 			isLocked,
 			unlockForRender,
 			lockAfterRender,
+			claimSubtree,
 			ref: setNode,
 		}
 	})
 
 	// Apply changes to refs.
+	optionsRef.current = options
 	onMutationsRef.current = onMutations // TODO: move to layout effect go guarantee delivery of previous handler?
-	useLayoutEffect(() => {
+	useIsomorphicLayoutEffect(() => {
 		// Apply change to nodeRef during layout effect
 		// so that the previous render's effects still use the previous render's
 		// root... unclear if this is actually needed...
@@ -213,6 +510,16 @@ export function useRevertMutations(
 	return state
 }
 
+/**
+ * Report an error without interrupting the caller, the same way React reports
+ * errors that aren't caught by an error boundary.
+ */
+export function reportUncaughtError(error: unknown) {
+	setTimeout(() => {
+		throw error
+	})
+}
+
 /**
  * Undo a DOM mutation recorded by a MutationObserver.
  * To revert an attribute or characterData mutation, the observer must be configured with
@@ -222,11 +529,9 @@ export function useRevertMutations(
  * See also https://developer.mozilla.org/en-US/docs/Web/API/MutationRecord
  */
 function revertDOMMutation(mutation: MutationRecord) {
-	console.warn("Reverted mutation of locked DOM tree", mutation)
-
 	switch (mutation.type) {
 		case "attributes": {
-			if (mutation.target instanceof Element && mutation.attributeName) {
+			if (isElement(mutation.target) && mutation.attributeName) {
 				if (mutation.oldValue === null) {
 					mutation.target.removeAttribute(mutation.attributeName)
 					return
@@ -258,6 +563,5 @@ function revertDOMMutation(mutation: MutationRecord) {
 		}
 	}
 
-	// eslint-disable-next-line no-console
-	console.error("Could not roll back mutation", mutation)
+	throw new Error(`Cannot roll back ${mutation.type} mutation`)
 }
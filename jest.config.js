@@ -0,0 +1,6 @@
+module.exports = {
+	testEnvironment: "jsdom",
+	transform: {
+		"\\.[jt]sx?$": ["babel-jest", { presets: ["next/babel"] }],
+	},
+}
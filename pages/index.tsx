@@ -1,7 +1,10 @@
-import React, { ReactNode, useCallback, useRef, useState } from "react"
+import React, { ReactNode, useCallback, useMemo, useRef, useState } from "react"
 import { Mutable } from "../components/Mutable"
+import { MutableDevtools } from "../components/MutableDevtools"
+import { MutableIsland } from "../components/MutableIsland"
 import { MutableRegistry } from "../components/MutableRegistry"
 import { MutableRoot } from "../components/MutableRoot"
+import { MutationInspector } from "../components/MutationInspector"
 import { MutationsEvent, OnMutations } from "../components/types"
 import {
 	LowLevelOnMutations,
@@ -10,17 +13,38 @@ import {
 } from "../components/useRevertMutations"
 
 function TodoBlock(props: { checked: boolean; text: string }) {
+	const [checked, setChecked] = useState(props.checked)
+	const keyCommands = useMemo(
+		() => ({
+			"Mod+Enter": () => {
+				setChecked(checked => !checked)
+				return true
+			},
+		}),
+		[]
+	)
 	return (
 		<Mutable
 			as="ul"
+			keyCommands={keyCommands}
 			onMutations={e => {
 				console.log("todo mutations", e)
 				e.stopPropagation(e.mutations)
 			}}
+			parse={node => ({
+				checked: (node as Element).querySelector("input")?.checked,
+				text: node.textContent,
+			})}
 		>
 			<li>
 				<label>
-					<input type="checkbox" checked={props.checked} />
+					<MutableIsland as="span">
+						<input
+							type="checkbox"
+							checked={checked}
+							onChange={e => setChecked(e.target.checked)}
+						/>
+					</MutableIsland>
 					{props.text}
 				</label>
 			</li>
@@ -29,10 +53,15 @@ function TodoBlock(props: { checked: boolean; text: string }) {
 }
 
 export default function IndexPage(props: {}) {
+	const [inspector] = useState(() => new MutationInspector())
 	return (
 		<div>
 			<h1>here's an editor</h1>
-			<MutableRoot onMutations={mutation => console.log(mutation)}>
+			<MutableRoot
+				onMutations={mutation => console.log(mutation)}
+				onChange={model => console.log("model", model)}
+				inspector={inspector}
+			>
 				<h2>My cool doc</h2>
 				<p>Inside mutable dom root, we receive edit events</p>
 				<p>We can also render components that know how to update themselves</p>
@@ -41,6 +70,7 @@ export default function IndexPage(props: {}) {
 					text={"Here's a Todo block with no children"}
 				/>
 			</MutableRoot>
+			<MutableDevtools inspector={inspector} />
 		</div>
 	)
 }